@@ -0,0 +1,90 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { AdmissionError, createAdmissionQueue } from "./admission.ts";
+import { ExecutionError } from "./executor-common.ts";
+
+Deno.test("admission - hands slots to waiters in order", async () => {
+  const queue = createAdmissionQueue({
+    maxConcurrent: 1,
+    maxQueued: 2,
+    timeoutMs: 1000,
+  });
+  const order: number[] = [];
+
+  const first = await queue.acquire();
+  const second = queue.acquire().then((slot) => {
+    order.push(2);
+    return slot;
+  });
+  const third = queue.acquire().then((slot) => {
+    order.push(3);
+    return slot;
+  });
+  assertEquals([queue.running(), queue.queued()], [1, 2]);
+
+  first.release();
+  first.release(); // A second release frees nothing
+  (await second).release();
+  const slot = await third;
+
+  assertEquals(order, [2, 3]);
+  assertEquals(slot.waitMs >= 0, true);
+  slot.release();
+  assertEquals([queue.running(), queue.queued()], [0, 0]);
+});
+
+Deno.test("admission - rejects when the queue is full", async () => {
+  const queue = createAdmissionQueue({
+    maxConcurrent: 1,
+    maxQueued: 1,
+    timeoutMs: 1000,
+  });
+
+  const slot = await queue.acquire();
+  const waiting = queue.acquire();
+  assertEquals(queue.hasCapacity(), false);
+
+  await assertRejects(() => queue.acquire(), AdmissionError);
+
+  slot.release();
+  (await waiting).release();
+  assertEquals(queue.hasCapacity(), true);
+});
+
+Deno.test("admission - gives up after the queue timeout", async () => {
+  const queue = createAdmissionQueue({
+    maxConcurrent: 1,
+    maxQueued: 1,
+    timeoutMs: 50,
+  });
+
+  const slot = await queue.acquire();
+  await assertRejects(
+    () => queue.acquire(),
+    AdmissionError,
+    "No execution slot became free within 50ms",
+  );
+  assertEquals(queue.queued(), 0);
+  slot.release();
+  assertEquals(queue.running(), 0);
+});
+
+Deno.test("admission - leaves the queue when cancelled", async () => {
+  const queue = createAdmissionQueue({
+    maxConcurrent: 1,
+    maxQueued: 1,
+    timeoutMs: 1000,
+  });
+  const controller = new AbortController();
+
+  const slot = await queue.acquire();
+  const waiting = queue.acquire(controller.signal);
+  controller.abort();
+
+  const error = await assertRejects(() => waiting, ExecutionError);
+  assertEquals(error.code, "CANCELLED");
+  assertEquals(queue.queued(), 0);
+  slot.release();
+});
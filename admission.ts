@@ -0,0 +1,148 @@
+/**
+ * Admission control: caps how many executions run at once for each isolation
+ * mode and keeps the rest waiting in a bounded FIFO queue
+ *
+ * Without it, a burst of requests spawns a worker or process for each of them
+ * at the same time.
+ */
+
+import { ExecutionError } from "./executor-common.ts";
+import { type RunCode } from "./model/run-code.ts";
+
+export type Isolation = NonNullable<RunCode["isolation"]>;
+
+const MAX_CONCURRENT_PROCESS = +(Deno.env.get("MAX_CONCURRENT_PROCESS") || 4); // Executions running at once with isolation="process"
+const MAX_CONCURRENT_NONE = +(Deno.env.get("MAX_CONCURRENT_NONE") || 10); // Executions running at once with isolation="none"
+const MAX_QUEUE_SIZE = +(Deno.env.get("MAX_QUEUE_SIZE") || 100); // Executions waiting for a slot, per isolation mode
+const QUEUE_TIMEOUT_MS = +(Deno.env.get("QUEUE_TIMEOUT_MS") || 30000); // How long an execution may wait for a slot
+export const RETRY_AFTER_SECONDS = +(Deno.env.get("RETRY_AFTER_SECONDS") || 1); // Sent with 429 responses
+
+/**
+ * Thrown when an execution is not admitted: the queue is full, or no slot
+ * became free in time
+ */
+export class AdmissionError extends Error {}
+
+export interface AdmissionLimits {
+  maxConcurrent: number;
+  maxQueued: number;
+  timeoutMs: number; // Longest wait in the queue
+}
+
+export interface Slot {
+  release: () => void; // Frees the slot for the next execution, safe to call twice
+  waitMs: number; // Time spent in the queue
+}
+
+export interface AdmissionQueue {
+  acquire: (signal?: AbortSignal) => Promise<Slot>;
+  hasCapacity: () => boolean; // Whether acquire() would run or queue instead of rejecting
+  running: () => number;
+  queued: () => number;
+}
+
+/**
+ * Creates a counting semaphore with a FIFO queue
+ *
+ * acquire() rejects with AdmissionError right away when the queue is full, or
+ * after `timeoutMs` in the queue, and with a "CANCELLED" ExecutionError when
+ * the signal aborts while it waits.
+ */
+export function createAdmissionQueue(limits: AdmissionLimits): AdmissionQueue {
+  let running = 0;
+  const waiting: Array<() => void> = [];
+
+  const createSlot = (start: number): Slot => {
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      // Hand the slot straight to the next waiter, if any
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        running--;
+      }
+    };
+    return { release, waitMs: Date.now() - start };
+  };
+
+  const acquire = (signal?: AbortSignal): Promise<Slot> => {
+    const start = Date.now();
+
+    if (running < limits.maxConcurrent) {
+      running++;
+      return Promise.resolve(createSlot(start));
+    }
+    if (waiting.length >= limits.maxQueued) {
+      return Promise.reject(
+        new AdmissionError(
+          `Too many executions: ${running} running, ${waiting.length} queued`,
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        const index = waiting.indexOf(grant);
+        if (index !== -1) {
+          waiting.splice(index, 1);
+        }
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const grant = () => {
+        leave();
+        resolve(createSlot(start));
+      };
+
+      const timer = setTimeout(() => {
+        leave();
+        reject(
+          new AdmissionError(
+            `No execution slot became free within ${limits.timeoutMs}ms`,
+          ),
+        );
+      }, limits.timeoutMs);
+
+      const onAbort = () => {
+        leave();
+        reject(
+          new ExecutionError({
+            message: "Execution cancelled",
+            code: "CANCELLED",
+          }),
+        );
+      };
+
+      waiting.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (signal?.aborted) {
+        onAbort();
+      }
+    });
+  };
+
+  return {
+    acquire,
+    hasCapacity: () =>
+      running < limits.maxConcurrent || waiting.length < limits.maxQueued,
+    running: () => running,
+    queued: () => waiting.length,
+  };
+}
+
+export const admissionQueues: Record<Isolation, AdmissionQueue> = {
+  process: createAdmissionQueue({
+    maxConcurrent: MAX_CONCURRENT_PROCESS,
+    maxQueued: MAX_QUEUE_SIZE,
+    timeoutMs: QUEUE_TIMEOUT_MS,
+  }),
+  none: createAdmissionQueue({
+    maxConcurrent: MAX_CONCURRENT_NONE,
+    maxQueued: MAX_QUEUE_SIZE,
+    timeoutMs: QUEUE_TIMEOUT_MS,
+  }),
+};
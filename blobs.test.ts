@@ -0,0 +1,70 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  BLOB_THRESHOLD_BYTES,
+  type BlobRef,
+  convertResultBuffers,
+  deleteExpiredBlobs,
+  openBlob,
+  putBlob,
+} from "./blobs.ts";
+
+async function readBlob(
+  id: string,
+  tenant?: string,
+): Promise<Uint8Array | undefined> {
+  const blob = await openBlob(id, tenant);
+  if (!blob) return undefined;
+  return new Uint8Array(await new Response(blob.file.readable).arrayBuffer());
+}
+
+Deno.test("blobs - stores content under its hash", async () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const ref = await putBlob(png);
+
+  assertEquals(ref.$blob.length, 64);
+  assertEquals(ref.mime, "image/png");
+  assertEquals(ref.size, 8);
+  assertEquals(await putBlob(png), ref);
+
+  const blob = await openBlob(ref.$blob);
+  assertEquals(blob?.mime, "image/png");
+  blob?.file.close();
+  assertEquals(await readBlob(ref.$blob), png);
+  assertEquals(await readBlob("0".repeat(64)), undefined);
+  assertEquals(await readBlob("../etc/passwd"), undefined);
+});
+
+Deno.test("blobs - keeps blobs to the tenant that stored them", async () => {
+  const ref = await putBlob(new TextEncoder().encode("tenant a only"), "a");
+
+  assertEquals((await readBlob(ref.$blob, "a"))?.length, 13);
+  assertEquals(await readBlob(ref.$blob, "b"), undefined);
+  assertEquals(await readBlob(ref.$blob), undefined);
+});
+
+Deno.test("blobs - offloads only large buffers", async () => {
+  const large = new Uint8Array(BLOB_THRESHOLD_BYTES).fill(1);
+  const result = await convertResultBuffers({
+    video: large,
+    thumbnail: new Uint8Array([72, 105]),
+  }) as { video: BlobRef; thumbnail: string };
+
+  assertEquals(result.video.size, BLOB_THRESHOLD_BYTES);
+  assertEquals(result.video.mime, "application/octet-stream");
+  assertEquals(result.thumbnail, "data:text/plain;base64,SGk=");
+  assertEquals(await readBlob(result.video.$blob), large);
+
+  // A raw buffer result stays as is
+  assertEquals(await convertResultBuffers(large, true), large);
+});
+
+Deno.test("blobs - deletes expired blobs", async () => {
+  const ref = await putBlob(new TextEncoder().encode("expiring"));
+
+  await deleteExpiredBlobs();
+  assertEquals((await readBlob(ref.$blob))?.length, 8);
+
+  // Two hours later
+  await deleteExpiredBlobs(Date.now() + 2 * 3600000);
+  assertEquals(await readBlob(ref.$blob), undefined);
+});
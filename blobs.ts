@@ -0,0 +1,184 @@
+/**
+ * Local content-addressed store for large buffer results, served via
+ * `GET /blobs/:id`
+ *
+ * Buffers above BLOB_THRESHOLD_BYTES are written to BLOB_DIR under the SHA-256
+ * hash of their content and replaced in the result by a `{ $blob, mime, size }`
+ * reference. Each tenant has a directory of its own, so blobs are only found
+ * by the tenant whose execution stored them. Everything the store needs is on
+ * disk, so blobs survive restarts until they expire.
+ */
+
+import {
+  convertBuffersToDataUris,
+  detectMimeType,
+} from "./utils/buffer-to-data-uri.ts";
+import { sha256Hex } from "./utils/hash.ts";
+
+export interface BlobRef {
+  $blob: string; // Blob id: hex SHA-256 of the content
+  mime: string;
+  size: number;
+}
+
+// Buffers of this size or larger are offloaded to the store (default: 1 MB)
+export const BLOB_THRESHOLD_BYTES = +(
+  Deno.env.get("BLOB_THRESHOLD_BYTES") || 1024 * 1024
+);
+const BLOB_TTL_MS = +(Deno.env.get("BLOB_TTL_MS") || 3600000); // Blobs are deleted 1 hour after their last write by default
+const BLOB_CLEANUP_INTERVAL_MS = 60000; // How often expired blobs are looked for
+
+const BLOB_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+const MIME_SNIFF_BYTES = 512; // detectMimeType() looks at no more than this
+
+const BLOB_DIR = Deno.env.get("BLOB_DIR") || "/tmp/piper-blobs"; // Created on first use
+
+// Directory of a tenant's blobs, named by the hash of the tenant, as names
+// may contain anything
+async function tenantDir(tenant: string | undefined): Promise<string> {
+  return `${BLOB_DIR}/${await sha256Hex(tenant ?? "")}`;
+}
+
+/**
+ * Stores a buffer for a tenant and returns a reference to it
+ *
+ * Storing the same content again only renews its expiry.
+ */
+export async function putBlob(
+  data: Uint8Array,
+  tenant?: string,
+): Promise<BlobRef> {
+  const id = await sha256Hex(data);
+  const dir = await tenantDir(tenant);
+  await Deno.mkdir(dir, { recursive: true });
+  const path = `${dir}/${id}`;
+
+  try {
+    const now = new Date();
+    await Deno.utime(path, now, now);
+  } catch {
+    // Written to a temporary file first, so a blob is never read half-written
+    const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+    await Deno.writeFile(tempPath, data);
+    await Deno.rename(tempPath, path);
+  }
+
+  return { $blob: id, mime: detectMimeType(data), size: data.length };
+}
+
+/**
+ * Opens a blob the tenant stored for streaming, or returns undefined if there
+ * is none
+ */
+export async function openBlob(
+  id: string,
+  tenant?: string,
+): Promise<{ file: Deno.FsFile; mime: string; size: number } | undefined> {
+  if (!BLOB_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(`${await tenantDir(tenant)}/${id}`, { read: true });
+  } catch {
+    return undefined;
+  }
+
+  const { size } = await file.stat();
+  const head = new Uint8Array(Math.min(size, MIME_SNIFF_BYTES));
+  await file.read(head);
+  await file.seek(0, Deno.SeekMode.Start);
+  return { file, mime: detectMimeType(head), size };
+}
+
+/**
+ * Replaces every buffer of at least BLOB_THRESHOLD_BYTES with a reference to
+ * it in the tenant's store
+ */
+export async function offloadBuffers(
+  value: unknown,
+  tenant?: string,
+): Promise<unknown> {
+  if (value instanceof Uint8Array) {
+    return value.length >= BLOB_THRESHOLD_BYTES
+      ? await putBlob(value, tenant)
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return await Promise.all(value.map((item) => offloadBuffers(item, tenant)));
+  }
+
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    value.constructor === Object
+  ) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, val]) =>
+        [key, await offloadBuffers(val, tenant)] as const
+      ),
+    );
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+}
+
+/**
+ * Converts the buffers in a result for the response: large ones are offloaded
+ * to the tenant's store, the others become data URIs
+ *
+ * With `raw`, a result that is a buffer itself is returned as is.
+ */
+export async function convertResultBuffers(
+  result: unknown,
+  raw = false,
+  tenant?: string,
+): Promise<unknown> {
+  if (raw && result instanceof Uint8Array) {
+    return result;
+  }
+  return convertBuffersToDataUris(await offloadBuffers(result, tenant));
+}
+
+/**
+ * Deletes blobs (and leftover temporary files) of every tenant not written
+ * for BLOB_TTL_MS
+ */
+export async function deleteExpiredBlobs(now = Date.now()): Promise<void> {
+  const paths: string[] = [];
+  try {
+    for await (const tenant of Deno.readDir(BLOB_DIR)) {
+      if (!tenant.isDirectory) continue;
+      const dir = `${BLOB_DIR}/${tenant.name}`;
+      for await (const entry of Deno.readDir(dir)) {
+        if (entry.isFile) {
+          paths.push(`${dir}/${entry.name}`);
+        }
+      }
+    }
+  } catch {
+    return; // Nothing stored yet
+  }
+
+  await Promise.all(
+    paths.map(async (path) => {
+      try {
+        const { mtime } = await Deno.stat(path);
+        if (mtime && now - mtime.getTime() > BLOB_TTL_MS) {
+          await Deno.remove(path);
+        }
+      } catch {
+        // Already gone
+      }
+    }),
+  );
+}
+
+const cleanupTimer = setInterval(() => {
+  deleteExpiredBlobs().catch(() => {});
+}, BLOB_CLEANUP_INTERVAL_MS);
+Deno.unrefTimer(cleanupTimer);
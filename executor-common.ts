@@ -2,12 +2,64 @@
  * Common types and utilities shared between executor implementations
  */
 
-export type LogLevel = "log" | "info" | "warn" | "error";
+import {
+  ERROR_STATUS,
+  type ErrorCode,
+  isErrorCode,
+} from "./utils/error-codes.ts";
+import { type CacheStatus } from "./utils/module-cache.ts";
+import {
+  type LimitCode,
+  limitMessage,
+  type OutputLimits,
+} from "./utils/output-limits.ts";
+import { type PhaseTimings } from "./utils/phase-timer.ts";
+import { type CpuTime } from "./utils/cpu-time.ts";
 
+export { ERROR_STATUS, isErrorCode };
+export type { ErrorCode, PhaseTimings };
+
+export type LogLevel = "log" | "info" | "warn" | "error" | "debug" | "trace";
+
+export interface LogEntry {
+  ts: number;
+  level: LogLevel;
+  message: string; // Formatted like Deno's console does
+  args?: unknown[]; // Raw console arguments as JSON, only with logArgs
+}
+
+/**
+ * Resources an execution used, sent to the client with its result or error
+ */
+export interface ExecutionStats {
+  durationMs: number; // Wall-clock time from asking for a worker or process to the answer
+  importMs?: number; // Importing the script
+  executeMs?: number; // The call of `fn`
+  peakHeapBytes?: number; // Highest V8 heap use of the worker or process while the script ran
+  cpuUserMs?: number; // CPU time of the process while the job ran, "process" isolation only
+  cpuSystemMs?: number;
+}
+
+/**
+ * Passed to the script's function as its second argument
+ */
+export interface ExecutionContext {
+  requestId?: string; // ID of the request that started the execution, for tagging logs
+}
+
+/**
+ * A failed execution, in the same shape from both executors; see
+ * utils/error-codes.ts for the codes and their HTTP status
+ */
 export class ExecutionError extends Error {
-  code?: string;
+  code: ErrorCode;
   override stack: string;
-  logs: Array<{ ts: number; level: LogLevel; message: string }>;
+  logs: LogEntry[];
+  queueWaitMs?: number; // Set by the server once the execution had a slot
+  requestId?: string; // Set by the server
+  timings?: PhaseTimings; // Phases the execution got through before failing
+  stats?: ExecutionStats;
+  memoryLimitMb?: number; // Heap limit that was exceeded, on MEMORY_LIMIT_ERROR
 
   constructor({
     message,
@@ -17,8 +69,8 @@ export class ExecutionError extends Error {
   }: {
     message?: string;
     stack?: string;
-    code?: string;
-    logs?: Array<{ ts: number; level: LogLevel; message: string }>;
+    code: ErrorCode;
+    logs?: LogEntry[];
   }) {
     super(message || "Unknown error");
     this.code = code;
@@ -27,6 +79,132 @@ export class ExecutionError extends Error {
   }
 }
 
+export interface ExecutionResult {
+  result: unknown;
+  logs: LogEntry[];
+  cache?: CacheStatus; // Whether the worker or process reused the compiled module
+  queueWaitMs?: number; // Time spent waiting for an execution slot, set by the server
+  timings?: PhaseTimings;
+  stats?: ExecutionStats;
+}
+
+export interface ExecuteOptions {
+  signal?: AbortSignal; // Aborting kills the worker or process and rejects with code "CANCELLED"
+  onLog?: (entry: LogEntry) => void; // Called for each console entry as soon as it is produced
+  raw?: boolean; // Resolve with a Uint8Array result as is, instead of converting it to a data URI
+  requestId?: string; // Handed to the script in its ExecutionContext
+  tenant?: string; // Processes, workers and cached modules are never shared with another tenant
+}
+
 export const DEFAULT_TIMEOUT_MS = 5000; // 5 seconds
 export const MAX_TIMEOUT_MS = 300000; // 300 seconds (5 minutes)
 
+export const PER_WORKER_MEMORY_MB = +(
+  Deno.env.get("PER_WORKER_MEMORY_MB") || 128
+); // Heap limit of a worker or worker process in MB, unless the request sets memoryMb
+export const MAX_MEMORY_MB = +(Deno.env.get("MAX_MEMORY_MB") || 1024); // Largest memoryMb a request gets
+
+// Limits on what a single execution can send back, checked by the workers and
+// again by the executors (see utils/output-limits.ts)
+export const OUTPUT_LIMITS: OutputLimits = {
+  maxLogEntries: +(Deno.env.get("MAX_LOG_ENTRIES") || 1000),
+  maxLogBytes: +(Deno.env.get("MAX_LOG_BYTES") || 1024 * 1024), // 1 MB
+  maxResultBytes: +(Deno.env.get("MAX_RESULT_BYTES") || 64 * 1024 * 1024), // 64 MB
+};
+
+/**
+ * Builds the error for an execution that exceeded one of OUTPUT_LIMITS
+ *
+ * The logs kept so far are followed by a marker entry, so truncated logs can
+ * be told apart from complete ones.
+ */
+export function limitError(code: LimitCode, logs: LogEntry[]): ExecutionError {
+  const message = limitMessage(code, OUTPUT_LIMITS);
+  return new ExecutionError({
+    message,
+    code,
+    logs: [
+      ...logs,
+      { ts: Date.now(), level: "warn", message: `[truncated] ${message}` },
+    ],
+  });
+}
+
+/**
+ * Heap limit of an execution in MB: the request's memoryMb or the default,
+ * capped at MAX_MEMORY_MB
+ */
+export function memoryLimitMb(runCode: { memoryMb?: number }): number {
+  return Math.min(runCode.memoryMb ?? PER_WORKER_MEMORY_MB, MAX_MEMORY_MB);
+}
+
+/**
+ * Builds the error for an execution whose worker or process went over its
+ * heap limit of `memoryMb`
+ */
+export function memoryLimitError(
+  memoryMb: number,
+  logs: LogEntry[],
+  stack?: string,
+): ExecutionError {
+  const error = new ExecutionError({
+    message: `Memory limit of ${memoryMb}MB exceeded`,
+    code: "MEMORY_LIMIT_ERROR",
+    stack,
+    logs,
+  });
+  error.memoryLimitMb = memoryMb;
+  return error;
+}
+
+/**
+ * Builds the error for a result whose buffers could not be offloaded to the
+ * blob store or converted, e.g. because BLOB_DIR is not writable
+ */
+export function blobStoreError(
+  error: unknown,
+  logs: LogEntry[],
+): ExecutionError {
+  return new ExecutionError({
+    message: `Storing the result failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    code: "BLOB_STORE_ERROR",
+    logs,
+  });
+}
+
+/**
+ * Completes the timings a worker or process reported with the time it took to
+ * pick up the job, counted from `start` (both from Date.now())
+ */
+export function phaseTimings(
+  start: number,
+  reported: { startedAt?: number; timings?: PhaseTimings },
+): PhaseTimings | undefined {
+  if (reported.startedAt === undefined) {
+    return undefined;
+  }
+  return {
+    acquireMs: Math.max(0, reported.startedAt - start),
+    ...reported.timings,
+  };
+}
+
+/**
+ * Builds the stats of an execution that started at `start` (from Date.now())
+ * from what its worker or process reported, if it got that far
+ */
+export function executionStats(
+  start: number,
+  reported?: { timings?: PhaseTimings; peakHeapBytes?: number; cpu?: CpuTime },
+): ExecutionStats {
+  return {
+    durationMs: Date.now() - start,
+    importMs: reported?.timings?.importMs,
+    executeMs: reported?.timings?.executeMs,
+    peakHeapBytes: reported?.peakHeapBytes,
+    cpuUserMs: reported?.cpu?.userMs,
+    cpuSystemMs: reported?.cpu?.systemMs,
+  };
+}
@@ -0,0 +1,663 @@
+import {
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { execute, ExecutionError } from "./executor-isolated.ts";
+
+Deno.test("executor-isolated - normal code execution", async () => {
+  const script = `
+    export function greet(payload) {
+      console.log("Hello from process!");
+      return { message: "Hello " + payload.name };
+    }
+  `;
+
+  const result = await execute({
+    script,
+    fn: "greet",
+    payload: { name: "World" },
+  });
+
+  assertEquals(result.result, { message: "Hello World" });
+  assertEquals(result.logs.length, 1);
+  assertEquals(result.logs[0].message, "Hello from process!");
+});
+
+Deno.test("executor-isolated - no permissions by default", async () => {
+  const script = `
+    export async function run() {
+      return await Deno.readTextFile("/etc/hosts");
+    }
+  `;
+
+  await assertRejects(
+    async () => {
+      await execute({ script, fn: "run", payload: {} });
+    },
+    Error,
+    "Requires read access",
+  );
+});
+
+Deno.test(
+  "executor-isolated - rejects permissions beyond the maximum",
+  async () => {
+    const script = `
+    export function run() {
+      return "unreachable";
+    }
+  `;
+
+    await assertRejects(
+      async () => {
+        await execute({
+          script,
+          fn: "run",
+          payload: {},
+          permissions: { read: ["/etc/hosts"] },
+        });
+      },
+      Error,
+      'Permission not allowed: read "/etc/hosts"',
+    );
+  },
+);
+
+Deno.test("executor-isolated - reuses pooled processes", async () => {
+  const script = `
+    export function run() {
+      return { pid: Deno.pid };
+    }
+  `;
+
+  const first = await execute({ script, fn: "run", payload: {} });
+  const second = await execute({ script, fn: "run", payload: {} });
+
+  assertEquals(
+    (first.result as { pid: number }).pid,
+    (second.result as { pid: number }).pid,
+  );
+});
+
+Deno.test("executor-isolated - does not reuse a process that left timers behind", async () => {
+  const script = `
+    export function run(inputs) {
+      if (inputs.timer) setInterval(() => {}, 1000);
+      return { pid: Deno.pid };
+    }
+  `;
+  const run = (timer: boolean) =>
+    execute({ script, fn: "run", payload: { timer } });
+
+  const first = await run(true);
+  const second = await run(false);
+  const third = await run(false);
+
+  const pid = (result: unknown) => (result as { pid: number }).pid;
+  assertNotEquals(pid(second.result), pid(first.result));
+  assertEquals(pid(third.result), pid(second.result));
+});
+
+Deno.test("executor-isolated - never shares a process between tenants", async () => {
+  const script = `
+    export function run() {
+      return { pid: Deno.pid };
+    }
+  `;
+  const run = (tenant: string) =>
+    execute({ script, fn: "run", payload: {} }, { tenant });
+
+  const first = await run("a");
+  const second = await run("a");
+  const other = await run("b");
+
+  const pid = (result: unknown) => (result as { pid: number }).pid;
+  assertEquals(pid(first.result), pid(second.result));
+  assertNotEquals(pid(other.result), pid(first.result));
+  assertEquals(other.cache, "miss");
+});
+
+Deno.test("executor-isolated - recycles process after error", async () => {
+  const pidScript = `
+    export function run() {
+      return { pid: Deno.pid };
+    }
+  `;
+  const failingScript = `
+    export function run() {
+      throw new Error("Failure " + Deno.pid);
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script: failingScript, fn: "run", payload: {} });
+    },
+    Error,
+    "Failure",
+  );
+  const failedPid = Number(error.message.split(" ")[1]);
+
+  const { result } = await execute({
+    script: pidScript,
+    fn: "run",
+    payload: {},
+  });
+  assertNotEquals((result as { pid: number }).pid, failedPid);
+});
+
+Deno.test("executor-isolated - recovers after timeout", async () => {
+  const script = `
+    export function run(payload) {
+      while (payload.loop) {}
+      return { done: true };
+    }
+  `;
+
+  await assertRejects(
+    async () => {
+      await execute({
+        script,
+        fn: "run",
+        payload: { loop: true },
+        timeout: 500,
+      });
+    },
+    Error,
+    "Execution timeout",
+  );
+
+  const { result } = await execute({
+    script,
+    fn: "run",
+    payload: { loop: false },
+  });
+  assertEquals(result, { done: true });
+});
+
+Deno.test("executor-isolated - timeout keeps logs produced so far", async () => {
+  const script = `
+    export function run() {
+      for (let i = 1; i <= 3; i++) {
+        console.log("Step " + i);
+      }
+      while (true) {}
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "run", payload: {}, timeout: 500 });
+    },
+    ExecutionError,
+    "Execution timeout",
+  );
+
+  assertEquals(error.code, "TIMEOUT_ERROR");
+  assertEquals(error.logs.map((l) => l.message), [
+    "Step 1",
+    "Step 2",
+    "Step 3",
+  ]);
+});
+
+Deno.test("executor-isolated - crash keeps logs produced so far", async () => {
+  const script = `
+    export function run() {
+      console.log("About to exit");
+      Deno.exit(3);
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "run", payload: {} });
+    },
+    ExecutionError,
+    "Process failed",
+  );
+
+  assertEquals(error.logs.map((l) => l.message), ["About to exit"]);
+});
+
+Deno.test("executor-isolated - rejects frames forged by user code", async () => {
+  // Writes a success frame of its own, with a buffer path into a prototype
+  const script = `
+    export function run() {
+      const encoder = new TextEncoder();
+      const json = encoder.encode(JSON.stringify({
+        type: "success",
+        result: {},
+        bufferPaths: [["constructor", "prototype", "pwned"]],
+      }));
+      const buffer = new Uint8Array([1]);
+      const body = new Uint8Array(8 + json.length + buffer.length);
+      const view = new DataView(body.buffer);
+      view.setUint32(0, json.length);
+      body.set(json, 4);
+      view.setUint32(4 + json.length, buffer.length);
+      body.set(buffer, 8 + json.length);
+      const frame = new Uint8Array(4 + body.length);
+      new DataView(frame.buffer).setUint32(0, body.length);
+      frame.set(body, 4);
+      Deno.stdout.writeSync(frame);
+      return "done";
+    }
+  `;
+
+  const error = await assertRejects(
+    () => execute({ script, fn: "run", payload: {} }),
+    ExecutionError,
+    "Invalid buffer path",
+  );
+  assertEquals(error.code, "WORKER_CRASH");
+  assertEquals(({} as Record<string, unknown>).pwned, undefined);
+
+  // The pool still works afterwards
+  const { result } = await execute({
+    script: "export const run = () => 1;",
+    fn: "run",
+    payload: {},
+  });
+  assertEquals(result, 1);
+});
+
+Deno.test("executor-isolated - reuses the module of a repeated script", async () => {
+  const script = `
+    const loadedAt: number = performance.now();
+    export function run() {
+      return loadedAt;
+    }
+  `;
+
+  const first = await execute({ script, fn: "run", payload: {} });
+  const second = await execute({ script, fn: "run", payload: {} });
+
+  assertEquals(first.cache, "miss");
+  assertEquals(second.cache, "hit");
+  assertEquals(second.result, first.result);
+});
+
+Deno.test("executor-isolated - decodes data URI inputs when asked to", async () => {
+  const script = `
+    export function run(inputs: { image: Uint8Array & { mimeType: string } }) {
+      // Returned bytes are converted back to a data URI
+      return { mimeType: inputs.image.mimeType, image: inputs.image };
+    }
+  `;
+  const image = "data:image/png;base64,iVBORw0KGgo=";
+
+  const { result } = await execute({
+    script,
+    fn: "run",
+    payload: { image },
+    decodeInputs: true,
+  });
+
+  assertEquals(result, { mimeType: "image/png", image });
+});
+
+Deno.test("executor-isolated - passes uploaded files as Uint8Array inputs", async () => {
+  const script = `
+    export function run(inputs: Record<string, Uint8Array & { filename: string }>) {
+      return {
+        sizes: [inputs.first.length, inputs.second.length],
+        filenames: [inputs.first.filename, inputs.second.filename],
+        // Returned bytes are converted back to a data URI
+        second: inputs.second,
+      };
+    }
+  `;
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+  const { result } = await execute({
+    script,
+    fn: "run",
+    payload: {},
+    files: [
+      {
+        field: "first",
+        filename: "big.bin",
+        mimeType: "application/octet-stream",
+        data: new Uint8Array(1024 * 1024).fill(7),
+      },
+      {
+        field: "second",
+        filename: "pixel.png",
+        mimeType: "image/png",
+        data: png,
+      },
+    ],
+  });
+
+  assertEquals(result, {
+    sizes: [1024 * 1024, 8],
+    filenames: ["big.bin", "pixel.png"],
+    second: "data:image/png;base64,iVBORw0KGgo=",
+  });
+});
+
+Deno.test("executor-isolated - keeps a buffer result as bytes when raw", async () => {
+  const script = `
+    export function run() {
+      return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    }
+  `;
+
+  const raw = await execute({ script, fn: "run", payload: {} }, { raw: true });
+  assertEquals(
+    raw.result,
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  );
+
+  const converted = await execute({ script, fn: "run", payload: {} });
+  assertEquals(converted.result, "data:image/png;base64,iVBORw0KGgo=");
+});
+
+Deno.test("executor-isolated - offloads large buffers to the blob store", async () => {
+  const script = `
+    export function run() {
+      return {
+        video: new Uint8Array(2 * 1024 * 1024).fill(1),
+        thumbnail: new Uint8Array([72, 105]),
+      };
+    }
+  `;
+
+  const { result } = await execute({ script, fn: "run", payload: {} });
+
+  const { video, thumbnail } = result as {
+    video: { $blob: string; mime: string; size: number };
+    thumbnail: string;
+  };
+  assertEquals(video.size, 2 * 1024 * 1024);
+  assertEquals(video.mime, "application/octet-stream");
+  assertEquals(video.$blob.length, 64);
+  assertEquals(thumbnail, "data:text/plain;base64,SGk=");
+});
+
+Deno.test("executor-isolated - formats console values and keeps raw arguments", async () => {
+  const script = `
+    export function run() {
+      console.log("user", { id: 1, tags: ["a"] });
+      console.group("outer");
+      console.warn("nested");
+      console.groupEnd();
+      console.trace();
+      return null;
+    }
+  `;
+
+  const { logs } = await execute({
+    script,
+    fn: "run",
+    payload: {},
+    logArgs: true,
+  });
+
+  assertEquals(logs[0].message, 'user { id: 1, tags: [ "a" ] }');
+  assertEquals(logs[0].args, ["user", { id: 1, tags: ["a"] }]);
+  assertEquals(logs[2], {
+    ts: logs[2].ts,
+    level: "warn",
+    message: "    nested",
+    args: ["nested"],
+  });
+  assertEquals(logs[3].level, "trace");
+});
+
+Deno.test("executor-isolated - fails once the log limit is exceeded", async () => {
+  const script = `
+    export function spam() {
+      console.log("first");
+      while (true) console.log("again");
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "spam", payload: {}, timeout: 10000 });
+    },
+    ExecutionError,
+    "Log limit exceeded",
+  );
+
+  assertEquals(error.code, "LOG_LIMIT_EXCEEDED");
+  assertEquals(error.logs.length, 1001); // 1000 entries and the marker
+  assertEquals(error.logs[0].message, "first");
+  assertEquals(error.logs[1000].message.startsWith("[truncated]"), true);
+});
+
+Deno.test("executor-isolated - fails for a result above the output limit", async () => {
+  const script = `
+    export function big() {
+      console.log("building");
+      return { data: new Uint8Array(65 * 1024 * 1024) };
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "big", payload: {} });
+    },
+    ExecutionError,
+    "Output limit exceeded",
+  );
+
+  assertEquals(error.code, "OUTPUT_LIMIT_EXCEEDED");
+  assertEquals(error.logs.map((l) => l.message.split(":")[0]), [
+    "building",
+    "[truncated] Output limit exceeded",
+  ]);
+});
+
+Deno.test("executor-isolated - serializes rich result types", async () => {
+  const script = `
+    class Point {
+      constructor(x, y) {
+        this.x = x;
+        this.y = y;
+      }
+    }
+    export function rich() {
+      return {
+        big: 2n ** 64n,
+        date: new Date(0),
+        map: new Map([["a", new Set([1])]]),
+        point: new Point(1, 2),
+        blob: new Blob(["hi"], { type: "text/x-greeting" }),
+      };
+    }
+  `;
+
+  const result = await execute({ script, fn: "rich", payload: {} });
+
+  assertEquals(result.result, {
+    big: { $type: "BigInt", value: "18446744073709551616" },
+    date: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+    map: { $type: "Map", entries: [["a", { $type: "Set", values: [1] }]] },
+    point: { $type: "Object", class: "Point", value: { x: 1, y: 2 } },
+    blob: "data:text/x-greeting;base64,aGk=",
+  });
+});
+
+Deno.test("executor-isolated - rejects circular results", async () => {
+  const script = `
+    export function loop() {
+      const node = { name: "root" };
+      node.self = node;
+      return node;
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "loop", payload: {} });
+    },
+    ExecutionError,
+    "Result contains a circular reference at result.self",
+  );
+
+  assertEquals(error.code, "SERIALIZATION_ERROR");
+});
+
+Deno.test("executor-isolated - passes the request ID and reports phase timings", async () => {
+  const script = `
+    export function run(payload, context) {
+      return context.requestId;
+    }
+  `;
+
+  const result = await execute(
+    { script, fn: "run", payload: {} },
+    { requestId: "req-42" },
+  );
+
+  assertEquals(result.result, "req-42");
+  for (const phase of ["acquireMs", "importMs", "executeMs", "serializeMs"]) {
+    assertEquals(
+      typeof result.timings?.[phase as keyof typeof result.timings],
+      "number",
+      phase,
+    );
+  }
+
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `export function run() { throw new Error("boom"); }`,
+        fn: "run",
+        payload: {},
+      }),
+    ExecutionError,
+  );
+  assertEquals(typeof error.timings?.executeMs, "number");
+  assertEquals(error.timings?.serializeMs, undefined);
+});
+
+Deno.test("executor-isolated - reports an error code for each kind of failure", async () => {
+  const cases = [
+    ["export function run( {", "SYNTAX_ERROR"],
+    [`import "./missing.ts"; export function run() {}`, "IMPORT_ERROR"],
+    ["export function other() {}", "MISSING_EXPORT"],
+    [`export function run() { throw new Error("boom"); }`, "USER_ERROR"],
+    [`export function run() { throw "not an error"; }`, "USER_ERROR"],
+    [`export function run() { Deno.exit(3); }`, "WORKER_CRASH"],
+  ];
+
+  for (const [script, code] of cases) {
+    const error = await assertRejects(
+      () => execute({ script, fn: "run", payload: {} }),
+      ExecutionError,
+    );
+    assertEquals(error.code, code, script);
+  }
+});
+
+Deno.test("executor-isolated - reports resource usage stats", async () => {
+  const result = await execute({
+    // Burns 100ms of CPU rather than of wall time, other threads may take
+    // turns on the same core
+    script: `
+      import process from "node:process";
+      export function run() {
+        const start = process.cpuUsage();
+        while (process.cpuUsage(start).user < 100000) {}
+        return new Array(100000).fill(1).length;
+      }
+    `,
+    fn: "run",
+    payload: {},
+  });
+
+  const { stats } = result;
+  assertEquals((stats?.durationMs as number) >= 100, true);
+  assertEquals(typeof stats?.importMs, "number");
+  assertEquals((stats?.executeMs as number) >= 100, true);
+  assertEquals((stats?.peakHeapBytes as number) > 0, true);
+  // The process's boot is not counted
+  assertEquals((stats?.cpuUserMs as number) >= 100, true);
+
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `export function run() { throw new Error("boom"); }`,
+        fn: "run",
+        payload: {},
+      }),
+    ExecutionError,
+  );
+  assertEquals(typeof error.stats?.executeMs, "number");
+  assertEquals(typeof error.stats?.cpuUserMs, "number");
+});
+
+Deno.test("executor-isolated - reports the memory limit a script exceeded", async () => {
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `
+          export function run() {
+            const chunks = [];
+            while (true) chunks.push(new Array(100000).fill(Math.random()));
+          }
+        `,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+      }),
+    ExecutionError,
+  );
+  assertEquals(error.code, "MEMORY_LIMIT_ERROR");
+  assertEquals(error.memoryLimitMb, 32);
+  assertEquals(error.message, "Memory limit of 32MB exceeded");
+});
+
+Deno.test("executor-isolated - warns when the heap gets close to the limit", async () => {
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `
+          export async function run() {
+            const chunks = [];
+            while (true) {
+              chunks.push(new Array(100000).fill(Math.random()));
+              await new Promise((resolve) => setTimeout(resolve, 1));
+            }
+          }
+        `,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+        timeout: 20000,
+      }),
+    ExecutionError,
+  );
+  assertEquals(error.code, "MEMORY_LIMIT_ERROR");
+  const warning = error.logs.find((entry) =>
+    entry.message.startsWith("[memory]")
+  );
+  assertEquals(warning?.level, "warn");
+  assertEquals(warning?.message.endsWith("of the 32MB limit"), true);
+  assertEquals((error.stats?.peakHeapBytes as number) > 0, true);
+});
+
+Deno.test("executor-isolated - does not take printed out of memory messages for a memory error", async () => {
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `
+          export function run() {
+            Deno.stderr.writeSync(
+              new TextEncoder().encode("OOM: JavaScript heap out of memory\\n"),
+            );
+            Deno.exit(1);
+          }
+        `,
+        fn: "run",
+        payload: {},
+      }),
+    ExecutionError,
+  );
+  assertEquals(error.code, "WORKER_CRASH");
+});
@@ -1,134 +1,507 @@
+import { BLOB_THRESHOLD_BYTES, convertResultBuffers } from "./blobs.ts";
 import {
+  blobStoreError,
   DEFAULT_TIMEOUT_MS,
+  type ExecuteOptions,
   ExecutionError,
-  type LogLevel,
+  type ExecutionResult,
+  executionStats,
+  isErrorCode,
+  limitError,
+  type LogEntry,
   MAX_TIMEOUT_MS,
+  memoryLimitError,
+  memoryLimitMb,
+  OUTPUT_LIMITS,
+  PER_WORKER_MEMORY_MB,
+  type PhaseTimings,
+  phaseTimings,
 } from "./executor-common.ts";
 import { RunCode } from "./model/run-code.ts";
+import {
+  NO_PERMISSIONS,
+  resolvePermissions,
+  toDenoFlags,
+} from "./permissions.ts";
+import {
+  encodeFrame,
+  FrameTooLargeError,
+  readFrames,
+} from "./utils/framing.ts";
+import { type BufferPath, restoreBuffers } from "./utils/result-buffers.ts";
+import { type CacheStatus } from "./utils/module-cache.ts";
+import { exceededMemoryLimit } from "./utils/memory-limit.ts";
+import { createLogLimiter } from "./utils/output-limits.ts";
+import { type CpuTime } from "./utils/cpu-time.ts";
 
 export { ExecutionError };
 
-const PER_WORKER_MEMORY_MB = +Deno.env.get("PER_WORKER_MEMORY_MB") || 128; // Memory limit per worker in MB
+interface ProcessMessage {
+  type: "ready" | "log" | "memory" | "success" | "error";
+  entry?: LogEntry; // Sent for every console call, before the final response
+  result?: unknown;
+  bufferPaths?: BufferPath[]; // Where the frame's buffers go in the result
+  timersLeft?: boolean; // The job left timers behind, so the process is not reused
+  cache?: CacheStatus; // Whether the process reused the compiled module
+  error?: string;
+  message?: string;
+  code?: string;
+  stack?: string;
+  startedAt?: number; // When the process picked up the job
+  timings?: PhaseTimings;
+  peakHeapBytes?: number; // On "memory", the heap use that came close to the limit
+  cpu?: CpuTime; // Used by the process while it ran the job
+}
+
+// Process pool for reusing booted worker processes (only for isolation="process")
+const PROCESS_POOL_SIZE = +(Deno.env.get("PROCESS_POOL_SIZE") || 2); // Number of idle processes to keep warm
+const MAX_JOBS_PER_PROCESS = +(Deno.env.get("MAX_JOBS_PER_PROCESS") || 100); // Recycle processes after N jobs
+const MAX_STDERR_CHARS = 64 * 1024; // Only the tail of stderr is kept for error reports
+
+// No frame within the output limits is larger: data URIs take 4/3 of their
+// bytes, the rest covers the JSON around the result
+const MAX_FRAME_BYTES = Math.ceil(
+  Math.max(OUTPUT_LIMITS.maxResultBytes, OUTPUT_LIMITS.maxLogBytes) * 4 / 3,
+) + 64 * 1024;
+
+interface PooledProcess {
+  child: Deno.ChildProcess;
+  key: string; // Permission flags and memory limit the process was spawned with
+  tenant?: string; // Tenant of the jobs the process ran, it never runs another tenant's
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  onMessage: (message: ProcessMessage, buffers: Uint8Array[]) => void; // Handler of the job that is running
+  closed: Promise<void>; // Resolves once stdout ends, after every frame was handled
+  booted: boolean;
+  frameTooLarge: boolean; // The process sent more than MAX_FRAME_BYTES at once
+  stderr: string;
+  stderrDrained: Promise<void>;
+  busy: boolean;
+  jobCount: number;
+  exited: boolean;
+  killed: boolean; // Killed by the pool rather than by V8 or the system
+}
+
+const processPool: PooledProcess[] = [];
+let spawnedProcesses = 0; // Processes spawned so far, for metrics
+let shutDown = false; // Set by shutdownProcesses(), no processes are booted anymore
+
+/**
+ * Current size of the process pool, for metrics
+ */
+export function processPoolStats(): {
+  size: number;
+  busy: number;
+  spawned: number;
+} {
+  return {
+    size: processPool.length,
+    busy: processPool.filter((p) => p.busy).length,
+    spawned: spawnedProcesses,
+  };
+}
+
+function removeFromPool(proc: PooledProcess): void {
+  const index = processPool.indexOf(proc);
+  if (index !== -1) {
+    processPool.splice(index, 1);
+  }
+}
+
+function processKey(permissionFlags: string[], memoryMb: number): string {
+  return [...permissionFlags, `memory=${memoryMb}`].join(" ");
+}
+
+function spawnProcess(
+  permissionFlags: string[],
+  memoryMb: number,
+): PooledProcess {
+  // Spawn a separate Deno process with memory limit
+  const child = new Deno.Command("deno", {
+    args: [
+      "run",
+      // Never prompt, deny anything that was not granted
+      "--no-prompt",
+      ...permissionFlags,
+      // Set V8 memory limit for THIS process only
+      `--v8-flags=--max-old-space-size=${memoryMb}`,
+      new URL("./worker-process.ts", import.meta.url).href,
+    ],
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  spawnedProcesses++;
+
+  const proc: PooledProcess = {
+    child,
+    key: processKey(permissionFlags, memoryMb),
+    writer: child.stdin.getWriter(),
+    onMessage: () => {},
+    closed: Promise.resolve(),
+    booted: false,
+    frameTooLarge: false,
+    stderr: "",
+    stderrDrained: Promise.resolve(),
+    busy: false,
+    jobCount: 0,
+    exited: false,
+    killed: false,
+  };
+
+  // Hand every frame to the running job
+  proc.closed = (async () => {
+    for await (const frame of readFrames(child.stdout, MAX_FRAME_BYTES)) {
+      const message = frame.message as ProcessMessage;
+      if (message.type === "ready") {
+        proc.booted = true;
+      } else {
+        proc.onMessage(message, frame.buffers);
+      }
+    }
+  })().catch((error) => {
+    // Broken or oversized frames: the process can't be trusted anymore
+    proc.frameTooLarge = error instanceof FrameTooLargeError;
+    killProcess(proc);
+  });
+
+  // Drain stderr continuously so the process never blocks on a full pipe
+  proc.stderrDrained = (async () => {
+    const decoder = new TextDecoder();
+    for await (const chunk of child.stderr) {
+      proc.stderr = (proc.stderr + decoder.decode(chunk, { stream: true }))
+        .slice(-MAX_STDERR_CHARS);
+    }
+  })().catch(() => {});
+
+  child.status.then(() => {
+    proc.exited = true;
+    // Idle processes that died are dropped, busy ones are handled by their job
+    if (!proc.busy) {
+      removeFromPool(proc);
+    }
+  });
+
+  return proc;
+}
+
+function killProcess(proc: PooledProcess): void {
+  proc.killed = true;
+  try {
+    proc.child.kill("SIGKILL");
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Boots idle processes for the default profile (no permissions, default
+ * memory limit) until the pool is full
+ */
+export function warmUp(): void {
+  while (!shutDown && processPool.length < PROCESS_POOL_SIZE) {
+    processPool.push(
+      spawnProcess(toDenoFlags(NO_PERMISSIONS), PER_WORKER_MEMORY_MB),
+    );
+  }
+}
+
+/**
+ * Kills every pooled process, busy or not, and stops booting replacements,
+ * for shutting the server down
+ */
+export function shutdownProcesses(): void {
+  shutDown = true;
+  for (const proc of processPool.splice(0)) {
+    killProcess(proc);
+  }
+}
+
+function getOrCreateProcess(
+  permissionFlags: string[],
+  memoryMb: number,
+  tenant: string | undefined,
+): {
+  proc: PooledProcess;
+  shouldRecycle: boolean;
+} {
+  // Try to find an idle process with the same permissions and memory limit
+  // that is still unused or ran jobs of the same tenant only
+  const key = processKey(permissionFlags, memoryMb);
+  const idle = processPool.find((p) =>
+    p.key === key && !p.busy && !p.exited &&
+    (p.jobCount === 0 || p.tenant === tenant)
+  );
+  if (idle) {
+    idle.tenant = tenant;
+    idle.busy = true;
+    idle.jobCount++;
+    const shouldRecycle = idle.jobCount >= MAX_JOBS_PER_PROCESS;
+    return { proc: idle, shouldRecycle };
+  }
+
+  // Make room by evicting an idle process with another profile
+  if (processPool.length >= PROCESS_POOL_SIZE) {
+    const evictable = processPool.find((p) => !p.busy);
+    if (evictable) {
+      removeFromPool(evictable);
+      killProcess(evictable);
+    }
+  }
+
+  // Spawn a new process into the pool if it's not full
+  const proc = spawnProcess(permissionFlags, memoryMb);
+  proc.tenant = tenant;
+  proc.busy = true;
+  proc.jobCount = 1;
+  if (processPool.length < PROCESS_POOL_SIZE) {
+    processPool.push(proc);
+    return { proc, shouldRecycle: false };
+  }
+
+  // Pool is full and all processes are busy - use a temporary process
+  return { proc, shouldRecycle: true }; // Will be killed after use
+}
+
+function releaseProcess(proc: PooledProcess, shouldRecycle: boolean): void {
+  const inPool = processPool.includes(proc);
+
+  if (!inPool || shouldRecycle || proc.exited) {
+    // Remove from pool and kill (processes hold no state worth a clean exit)
+    removeFromPool(proc);
+    killProcess(proc);
+    // Boot a replacement in the background
+    warmUp();
+  } else {
+    // Mark as idle for reuse
+    proc.busy = false;
+  }
+}
 
-export function execute(runCode: RunCode): Promise<{
-  result: unknown;
-  logs: Array<{ ts: number; level: LogLevel; message: string }>;
-}> {
+export function execute(
+  runCode: RunCode,
+  options: ExecuteOptions = {},
+): Promise<ExecutionResult> {
   const requestedTimeout = runCode.timeout ?? DEFAULT_TIMEOUT_MS;
   const timeoutMs = Math.min(requestedTimeout, MAX_TIMEOUT_MS);
+  const memoryMb = memoryLimitMb(runCode);
 
   return new Promise((resolve, reject) => {
-    // Spawn a separate Deno process with memory limit
-    const process = new Deno.Command("deno", {
-      args: [
-        "run",
-        "--allow-net",
-        "--allow-read",
-        // Set V8 memory limit for THIS process only
-        `--v8-flags=--max-old-space-size=${PER_WORKER_MEMORY_MB}`,
-        new URL("./worker-process.ts", import.meta.url).href,
-      ],
-      stdin: "piped",
-      stdout: "piped",
-      stderr: "piped",
-    }).spawn();
+    const start = Date.now();
+
+    // Validate requested permissions (throws if they exceed the configured maximum)
+    const permissionFlags = toDenoFlags(
+      resolvePermissions(runCode.permissions),
+    );
+
+    // Get a booted process from the pool (or spawn a new one)
+    const { proc, shouldRecycle } = getOrCreateProcess(
+      permissionFlags,
+      memoryMb,
+      options.tenant,
+    );
 
     let isResolved = false;
-    let timeoutId: number | undefined;
+    const logs: LogEntry[] = []; // Collected as the process forwards them
+    let memoryReport: ProcessMessage | undefined; // Sent when the heap got close to the limit
+    const fitsLogLimits = createLogLimiter(OUTPUT_LIMITS);
+
+    // Rejects with what the process reported about the execution, if anything
+    const fail = (error: ExecutionError, message?: ProcessMessage) => {
+      error.timings = message && phaseTimings(start, message);
+      error.stats = executionStats(start, message);
+      reject(error);
+    };
 
     // Set up timeout
-    timeoutId = setTimeout(() => {
+    const timeoutId = setTimeout(() => {
       if (!isResolved) {
         isResolved = true;
-        process.kill("SIGKILL");
-        reject(
+        fail(
           new ExecutionError({
             message: "Execution timeout",
             code: "TIMEOUT_ERROR",
+            logs,
           }),
         );
+        releaseProcess(proc, true); // Kills the process
       }
     }, timeoutMs);
 
-    // Write input to process stdin
-    const writer = process.stdin.getWriter();
-    writer.write(new TextEncoder().encode(JSON.stringify(runCode)));
-    writer.close();
+    // Kill the process if the caller cancels the execution
+    const onAbort = () => {
+      if (!isResolved) {
+        isResolved = true;
+        clearTimeout(timeoutId);
+        fail(
+          new ExecutionError({
+            message: "Execution cancelled",
+            code: "CANCELLED",
+            logs,
+          }),
+        );
+        releaseProcess(proc, true);
+      }
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+    }
 
-    // Read output
-    (async () => {
-      try {
-        const { stdout, stderr, success } = await process.output();
+    // Listen for frames from the process
+    proc.onMessage = (message: ProcessMessage, buffers: Uint8Array[]) => {
+      if (isResolved) {
+        return;
+      }
 
-        if (isResolved) return;
-        isResolved = true;
-        if (timeoutId !== undefined) clearTimeout(timeoutId);
-
-        const output = new TextDecoder().decode(stdout);
-        const errorOutput = new TextDecoder().decode(stderr);
-
-        if (!success) {
-          // Check if it was killed due to memory
-          if (
-            errorOutput.includes("out of memory") ||
-            errorOutput.includes("OOM")
-          ) {
-            reject(
-              new ExecutionError({
-                message: "Memory limit exceeded",
-                code: "MEMORY_LIMIT_ERROR",
-                stack: errorOutput,
-              }),
-            );
-            return;
-          }
-
-          reject(
+      if (message.type === "memory") {
+        memoryReport = message;
+        const entry: LogEntry = {
+          ts: Date.now(),
+          level: "warn",
+          message: `[memory] Heap use reached ${
+            Math.round((message.peakHeapBytes ?? 0) / 1024 / 1024)
+          }MB of the ${memoryMb}MB limit`,
+        };
+        logs.push(entry);
+        options.onLog?.(entry);
+        return;
+      }
+
+      if (
+        message.type === "log" && message.entry && fitsLogLimits(message.entry)
+      ) {
+        logs.push(message.entry);
+        options.onLog?.(message.entry);
+        return;
+      }
+      isResolved = true;
+      clearTimeout(timeoutId);
+
+      if (message.type === "log") {
+        // The process should have stopped at the limit already
+        fail(limitError("LOG_LIMIT_EXCEEDED", logs), message);
+        releaseProcess(proc, true);
+      } else if (message.type === "success") {
+        // Put the raw buffers back into the result, then offload or
+        // convert them
+        let result: unknown;
+        try {
+          result = restoreBuffers(
+            message.result,
+            message.bufferPaths ?? [],
+            buffers,
+          );
+        } catch (error) {
+          // User code wrote a frame of its own
+          fail(
             new ExecutionError({
-              message: "Process failed",
-              stack: errorOutput,
+              message: `Process sent an invalid result: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              code: "WORKER_CRASH",
+              logs,
             }),
+            message,
           );
+          releaseProcess(proc, true);
           return;
         }
 
-        try {
-          const result = JSON.parse(output);
-          if (result.type === "success") {
+        // Release process back to pool (or kill if it should be recycled)
+        releaseProcess(proc, shouldRecycle || message.timersLeft === true);
+
+        convertResultBuffers(result, options.raw, options.tenant).then(
+          (converted) =>
             resolve({
-              result: result.result,
-              logs: result.logs || [],
-            });
-          } else {
-            reject(
-              new ExecutionError({
-                message: result.error,
-                stack: result.stack,
-                code: result.code,
-                logs: result.logs,
-              }),
-            );
-          }
-        } catch (e) {
-          reject(
-            new ExecutionError({
-              message: "Failed to parse output",
-              stack: String(e),
+              result: converted,
+              logs,
+              cache: message.cache,
+              timings: phaseTimings(start, message),
+              stats: executionStats(start, message),
             }),
-          );
-        }
-      } catch (e) {
-        if (!isResolved) {
-          isResolved = true;
-          if (timeoutId !== undefined) clearTimeout(timeoutId);
-          reject(
-            new ExecutionError({
-              message: "Process error",
-              stack: String(e),
+          (error) => fail(blobStoreError(error, logs), message),
+        );
+      } else {
+        const { code } = message;
+        fail(
+          code === "LOG_LIMIT_EXCEEDED" || code === "OUTPUT_LIMIT_EXCEEDED"
+            ? limitError(code, logs)
+            : new ExecutionError({
+              message: message.error,
+              stack: message.stack,
+              code: isErrorCode(code) ? code : "USER_ERROR",
+              logs,
             }),
-          );
-        }
+          message,
+        );
+        // On error, always recycle the process
+        releaseProcess(proc, true);
+      }
+    };
+
+    // Handle the process dying (or breaking the protocol) before it responds
+    proc.closed.then(async () => {
+      if (isResolved) {
+        return;
       }
-    })();
+      isResolved = true;
+      clearTimeout(timeoutId);
+
+      const status = await proc.child.status;
+      await proc.stderrDrained;
+      // Before the release, which kills the process as well
+      const memoryExceeded = exceededMemoryLimit({
+        status,
+        stderr: proc.stderr,
+        killedByPool: proc.killed,
+      });
+      releaseProcess(proc, true);
+
+      if (proc.frameTooLarge) {
+        fail(limitError("OUTPUT_LIMIT_EXCEEDED", logs));
+        return;
+      }
+
+      const errorOutput = proc.stderr;
+
+      if (memoryExceeded) {
+        fail(memoryLimitError(memoryMb, logs, errorOutput), memoryReport);
+        return;
+      }
+
+      fail(
+        new ExecutionError({
+          message: "Process failed",
+          code: "WORKER_CRASH",
+          stack: errorOutput,
+          logs,
+        }),
+      );
+    });
+
+    // Send the job to the process (a failed write shows up as the process
+    // dying). Uploaded files travel as raw buffers next to the JSON message.
+    const { files = [], ...job } = runCode;
+    const fileInfo = files.map(({ field, filename, mimeType }) => ({
+      field,
+      filename,
+      mimeType,
+    }));
+    proc.writer
+      .write(
+        encodeFrame(
+          {
+            type: "execute",
+            data: { ...job, files: fileInfo },
+            context: { requestId: options.requestId },
+            rawBufferBytes: BLOB_THRESHOLD_BYTES,
+            limits: OUTPUT_LIMITS,
+            memoryLimitMb: memoryMb,
+            tenant: options.tenant,
+          },
+          files.map((file) => file.data),
+        ),
+      )
+      .catch(() => {});
   });
 }
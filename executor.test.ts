@@ -2,7 +2,8 @@ import {
   assertEquals,
   assertRejects,
 } from "https://deno.land/std@0.224.0/assert/mod.ts";
-import { execute } from "./executor.ts";
+import { execute, ExecutionError } from "./executor.ts";
+import { WORKER_PERMISSIONS } from "./permissions.ts";
 
 Deno.test("executor - normal code execution", async () => {
   const script = `
@@ -252,6 +253,8 @@ Deno.test("executor - script as URL", async () => {
   `;
   await Deno.writeTextFile(tempFile, moduleCode);
 
+  // Like WORKER_READ_PATHS naming the file
+  WORKER_PERMISSIONS.read.push(tempFile);
   try {
     const result = await execute({
       script: `file://${tempFile}`,
@@ -262,6 +265,36 @@ Deno.test("executor - script as URL", async () => {
     assertEquals(result.result, { message: "Hello from URL" });
     assertEquals(result.logs.length, 1);
     assertEquals(result.logs[0].message, "Hello from URL module!");
+  } finally {
+    // Cleanup
+    WORKER_PERMISSIONS.read.pop();
+    await Deno.remove(tempFile);
+  }
+});
+
+Deno.test("executor - script as URL needs read access", async () => {
+  // Create a temporary module file
+  const tempFile = await Deno.makeTempFile({ suffix: ".js" });
+  const moduleCode = `
+    export function greet(payload) {
+      return { message: "Hello from " + payload.name };
+    }
+  `;
+  await Deno.writeTextFile(tempFile, moduleCode);
+
+  try {
+    // Workers can't read the server's files unless WORKER_READ_PATHS allows it
+    const error = await assertRejects(
+      () =>
+        execute({
+          script: `file://${tempFile}`,
+          fn: "greet",
+          payload: { name: "URL" },
+        }),
+      ExecutionError,
+    );
+    assertEquals(error.code, "IMPORT_ERROR");
+    assertEquals(error.message.includes("read access"), true);
   } finally {
     // Cleanup
     await Deno.remove(tempFile);
@@ -292,3 +325,556 @@ Deno.test("executor - timeout validation in schema", async () => {
   });
   assertEquals(result2.result, { message: "Hello" });
 });
+
+Deno.test("executor - workers cannot read env or spawn processes", async () => {
+  const script = `
+    export async function run() {
+      const denied = [];
+      try {
+        Deno.env.get("PATH");
+      } catch {
+        denied.push("env");
+      }
+      try {
+        await new Deno.Command("echo").output();
+      } catch {
+        denied.push("run");
+      }
+      return { denied };
+    }
+  `;
+
+  const result = await execute({ script, fn: "run", payload: {} });
+
+  assertEquals(result.result, { denied: ["env", "run"] });
+});
+
+Deno.test("executor - request narrows worker permissions", async () => {
+  const script = `
+    export async function run() {
+      return await Deno.readTextFile("/etc/hosts");
+    }
+  `;
+
+  await assertRejects(
+    async () => {
+      await execute({ script, fn: "run", payload: {}, permissions: "none" });
+    },
+    Error,
+    "Requires read access",
+  );
+});
+
+Deno.test("executor - request cannot widen worker permissions", async () => {
+  const script = `
+    export function run() {
+      return "unreachable";
+    }
+  `;
+
+  await assertRejects(
+    async () => {
+      await execute({
+        script,
+        fn: "run",
+        payload: {},
+        permissions: { write: ["/tmp"] },
+      });
+    },
+    Error,
+    'Permission not allowed: write "/tmp"',
+  );
+});
+
+Deno.test("executor - cancellation terminates the worker", async () => {
+  const script = `
+    export function greet(payload) {
+      while(true) {}
+    }
+  `;
+
+  const controller = new AbortController();
+  const execution = execute(
+    { script, fn: "greet", payload: {}, timeout: 60000 },
+    { signal: controller.signal },
+  );
+  setTimeout(() => controller.abort(), 100);
+
+  await assertRejects(() => execution, Error, "Execution cancelled");
+});
+
+Deno.test("executor - forwards logs as they are produced", async () => {
+  const script = `
+    export async function greet(payload) {
+      console.log("first");
+      await new Promise(resolve => setTimeout(resolve, 200));
+      console.log("second");
+      return { message: "Done" };
+    }
+  `;
+
+  const received: Array<{ message: string; at: number }> = [];
+  const started = Date.now();
+  const result = await execute(
+    { script, fn: "greet", payload: {} },
+    { onLog: (entry) => received.push({ ...entry, at: Date.now() }) },
+  );
+
+  assertEquals(received.map((r) => r.message), ["first", "second"]);
+  assertEquals(received[0].at - started < 200, true);
+  assertEquals(result.logs.map((l) => l.message), ["first", "second"]);
+});
+
+Deno.test("executor - timeout keeps logs produced so far", async () => {
+  const script = `
+    export function greet(payload) {
+      console.log("Step 1");
+      console.warn("Step 2");
+      while(true) {}
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "greet", payload: {}, timeout: 500 });
+    },
+    ExecutionError,
+    "Execution timeout",
+  );
+
+  assertEquals(error.code, "TIMEOUT_ERROR");
+  assertEquals(error.logs.map((l) => l.message), ["Step 1", "Step 2"]);
+});
+
+Deno.test("executor - reuses the module of a repeated script", async () => {
+  const script = `
+    let runs = 0;
+    export function run() {
+      return ++runs;
+    }
+  `;
+
+  const first = await execute({ script, fn: "run", payload: {} });
+  const second = await execute({ script, fn: "run", payload: {} });
+
+  assertEquals(first.cache, "miss");
+  assertEquals(second.cache, "hit");
+  // Same module instance, so module-level state carries over
+  assertEquals(second.result, 2);
+});
+
+Deno.test("executor - does not reuse a worker that left timers behind", async () => {
+  const leaving = await execute({
+    script: `
+      export function run() {
+        setInterval(() => console.log("from the first job"), 20);
+        setTimeout(() => { throw new Error("late"); }, 100);
+        return "done";
+      }
+    `,
+    fn: "run",
+    payload: {},
+  });
+  assertEquals(leaving.result, "done");
+
+  const next = await execute({
+    script: `
+      export async function run() {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return "clean";
+      }
+    `,
+    fn: "run",
+    payload: {},
+  });
+  assertEquals(next.result, "clean");
+  assertEquals(next.logs, []);
+});
+
+Deno.test("executor - never shares a worker or module between tenants", async () => {
+  const script = `
+    let runs = 0;
+    export function run() {
+      return ++runs;
+    }
+  `;
+  const run = (tenant: string) =>
+    execute({ script, fn: "run", payload: {} }, { tenant });
+
+  assertEquals((await run("a")).result, 1);
+  assertEquals((await run("a")).result, 2);
+  const other = await run("b");
+  assertEquals(other.cache, "miss");
+  assertEquals(other.result, 1);
+});
+
+Deno.test("executor - decodes data URI inputs when asked to", async () => {
+  const script = `
+    export function run(inputs) {
+      return {
+        isBytes: inputs.image instanceof Uint8Array,
+        length: inputs.image.length,
+        mimeType: inputs.image.mimeType,
+        other: inputs.other,
+      };
+    }
+  `;
+  const payload = { image: "data:text/plain;base64,SGVsbG8=", other: "text" };
+
+  const decoded = await execute({
+    script,
+    fn: "run",
+    payload,
+    decodeInputs: true,
+    permissions: "none",
+  });
+  assertEquals(decoded.result, {
+    isBytes: true,
+    length: 5,
+    mimeType: "text/plain",
+    other: "text",
+  });
+
+  // Off by default
+  const raw = await execute({ script, fn: "run", payload });
+  assertEquals((raw.result as { isBytes: boolean }).isBytes, false);
+});
+
+Deno.test("executor - passes uploaded files as Uint8Array inputs", async () => {
+  const script = `
+    export function run(inputs) {
+      return {
+        isBytes: inputs.upload instanceof Uint8Array,
+        text: new TextDecoder().decode(inputs.upload),
+        filename: inputs.upload.filename,
+        mimeType: inputs.upload.mimeType,
+        name: inputs.name,
+      };
+    }
+  `;
+
+  const { result } = await execute({
+    script,
+    fn: "run",
+    payload: { name: "test" },
+    files: [{
+      field: "upload",
+      filename: "hello.txt",
+      mimeType: "text/plain",
+      data: new TextEncoder().encode("Hello"),
+    }],
+  });
+
+  assertEquals(result, {
+    isBytes: true,
+    text: "Hello",
+    filename: "hello.txt",
+    mimeType: "text/plain",
+    name: "test",
+  });
+});
+
+Deno.test("executor - formats console values and keeps raw arguments", async () => {
+  const script = `
+    export function run() {
+      console.log("user", { id: 1, tags: ["a"] });
+      console.debug("details");
+      console.table([{ a: 1 }]);
+      return null;
+    }
+  `;
+
+  const { logs } = await execute({
+    script,
+    fn: "run",
+    payload: {},
+    logArgs: true,
+  });
+
+  assertEquals(logs[0].message, 'user { id: 1, tags: [ "a" ] }');
+  assertEquals(logs[0].args, ["user", { id: 1, tags: ["a"] }]);
+  assertEquals(logs[1].level, "debug");
+  assertEquals(logs[2].message.includes("│ (idx) │ a │"), true);
+
+  // Raw arguments are only included when asked for
+  const plain = await execute({ script, fn: "run", payload: {} });
+  assertEquals(plain.logs[0].args, undefined);
+});
+
+Deno.test("executor - fails once the log limit is exceeded", async () => {
+  const script = `
+    export function spam() {
+      console.log("first");
+      while (true) console.log("again");
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "spam", payload: {}, timeout: 10000 });
+    },
+    ExecutionError,
+    "Log limit exceeded",
+  );
+
+  assertEquals(error.code, "LOG_LIMIT_EXCEEDED");
+  assertEquals(error.logs.length, 1001); // 1000 entries and the marker
+  assertEquals(error.logs[0].message, "first");
+  assertEquals(error.logs[1000].message.startsWith("[truncated]"), true);
+});
+
+Deno.test("executor - fails for a result above the output limit", async () => {
+  const script = `
+    export function big() {
+      console.log("building");
+      return { data: new Uint8Array(65 * 1024 * 1024) };
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "big", payload: {} });
+    },
+    ExecutionError,
+    "Output limit exceeded",
+  );
+
+  assertEquals(error.code, "OUTPUT_LIMIT_EXCEEDED");
+  assertEquals(error.logs.map((l) => l.message.split(":")[0]), [
+    "building",
+    "[truncated] Output limit exceeded",
+  ]);
+});
+
+Deno.test("executor - serializes rich result types", async () => {
+  const script = `
+    class Point {
+      constructor(x, y) {
+        this.x = x;
+        this.y = y;
+      }
+    }
+    export function rich() {
+      return {
+        big: 2n ** 64n,
+        date: new Date(0),
+        map: new Map([["a", new Set([1])]]),
+        point: new Point(1, 2),
+        blob: new Blob(["hi"], { type: "text/x-greeting" }),
+      };
+    }
+  `;
+
+  const result = await execute({ script, fn: "rich", payload: {} });
+
+  assertEquals(result.result, {
+    big: { $type: "BigInt", value: "18446744073709551616" },
+    date: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+    map: { $type: "Map", entries: [["a", { $type: "Set", values: [1] }]] },
+    point: { $type: "Object", class: "Point", value: { x: 1, y: 2 } },
+    blob: "data:text/x-greeting;base64,aGk=",
+  });
+});
+
+Deno.test("executor - rejects circular results", async () => {
+  const script = `
+    export function loop() {
+      const node = { name: "root" };
+      node.self = node;
+      return node;
+    }
+  `;
+
+  const error = await assertRejects(
+    async () => {
+      await execute({ script, fn: "loop", payload: {} });
+    },
+    ExecutionError,
+    "Result contains a circular reference at result.self",
+  );
+
+  assertEquals(error.code, "SERIALIZATION_ERROR");
+});
+
+Deno.test("executor - passes the request ID and reports phase timings", async () => {
+  const script = `
+    export function run(payload, context) {
+      return context.requestId;
+    }
+  `;
+
+  const result = await execute(
+    { script, fn: "run", payload: {} },
+    { requestId: "req-42" },
+  );
+
+  assertEquals(result.result, "req-42");
+  assertEquals(typeof result.timings?.acquireMs, "number");
+  assertEquals(typeof result.timings?.importMs, "number");
+  assertEquals(typeof result.timings?.executeMs, "number");
+  assertEquals(typeof result.timings?.serializeMs, "number");
+});
+
+Deno.test("executor - reports an error code for each kind of failure", async () => {
+  const cases = [
+    ["export function run( {", "SYNTAX_ERROR"],
+    [`import "./missing.ts"; export function run() {}`, "IMPORT_ERROR"],
+    ["export function other() {}", "MISSING_EXPORT"],
+    [`export function run() { throw new Error("boom"); }`, "USER_ERROR"],
+    [`export function run() { throw "not an error"; }`, "USER_ERROR"],
+  ];
+
+  for (const [script, code] of cases) {
+    const error = await assertRejects(
+      () => execute({ script, fn: "run", payload: {} }),
+      ExecutionError,
+    );
+    assertEquals(error.code, code, script);
+  }
+});
+
+Deno.test("executor - reports resource usage stats", async () => {
+  const result = await execute({
+    script:
+      `export function run() { return new Array(100000).fill(1).length; }`,
+    fn: "run",
+    payload: {},
+  });
+
+  const { stats } = result;
+  assertEquals(typeof stats?.durationMs, "number");
+  assertEquals(typeof stats?.importMs, "number");
+  assertEquals(typeof stats?.executeMs, "number");
+  assertEquals((stats?.peakHeapBytes as number) > 0, true);
+  // Workers share the server's process, so there's no CPU time of their own
+  assertEquals(stats?.cpuUserMs, undefined);
+
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `export function run() { while (true) {} }`,
+        fn: "run",
+        payload: {},
+        timeout: 200,
+      }),
+    ExecutionError,
+  );
+  assertEquals((error.stats?.durationMs as number) >= 200, true);
+});
+
+Deno.test("executor - terminates a worker over its memory limit", async () => {
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `
+          export async function run() {
+            const chunks = [];
+            while (true) {
+              chunks.push(new Array(100000).fill(Math.random()));
+              await new Promise((resolve) => setTimeout(resolve, 1));
+            }
+          }
+        `,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+        timeout: 20000,
+      }),
+    ExecutionError,
+  );
+  assertEquals(error.code, "MEMORY_LIMIT_ERROR");
+  assertEquals(error.memoryLimitMb, 32);
+  assertEquals(error.message, "Memory limit of 32MB exceeded");
+  assertEquals((error.stats?.peakHeapBytes as number) > 32 * 1024 * 1024, true);
+
+  // The next execution gets a fresh worker
+  const result = await execute({
+    script: `export function run() { return "ok"; }`,
+    fn: "run",
+    payload: {},
+  });
+  assertEquals(result.result, "ok");
+});
+
+Deno.test("executor - stops a worker that allocates without yielding", async () => {
+  // The worker can't be stopped before it yields, so the loop ends by itself
+  const error = await assertRejects(
+    () =>
+      execute({
+        script: `
+          export function run() {
+            const chunks = [];
+            while (chunks.length < 300) {
+              chunks.push(new Array(100000).fill(Math.random()));
+            }
+            const end = Date.now() + 3000;
+            while (Date.now() < end);
+            return chunks.length;
+          }
+        `,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+        timeout: 20000,
+      }),
+    ExecutionError,
+  );
+  assertEquals(error.code, "MEMORY_LIMIT_ERROR");
+  assertEquals(error.memoryLimitMb, 32);
+  assertEquals((error.stats?.durationMs as number) < 3000, true);
+});
+
+Deno.test("executor - only stops the worker that allocates without yielding", async () => {
+  const sleeping = execute({
+    script: `
+      export async function run() {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        return "slept";
+      }
+    `,
+    fn: "run",
+    payload: {},
+    memoryMb: 64,
+    timeout: 20000,
+  });
+  const allocating = execute({
+    script: `
+      export function run() {
+        const chunks = [];
+        while (chunks.length < 600) {
+          chunks.push(new Array(100000).fill(Math.random()));
+        }
+        const end = Date.now() + 3000;
+        while (Date.now() < end);
+        return chunks.length;
+      }
+    `,
+    fn: "run",
+    payload: {},
+    memoryMb: 32,
+    timeout: 20000,
+  });
+
+  const error = await assertRejects(() => allocating, ExecutionError);
+  assertEquals(error.code, "MEMORY_LIMIT_ERROR");
+  assertEquals((await sleeping).result, "slept");
+});
+
+Deno.test("executor - doesn't charge the main thread's memory to workers", async () => {
+  const result = execute({
+    script: `
+      export async function run() {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return "slept";
+      }
+    `,
+    fn: "run",
+    payload: {},
+    memoryMb: 64,
+  });
+  // Like a large upload the server holds while the script runs
+  const upload = new Uint8Array(200 * 1024 * 1024).fill(1);
+
+  assertEquals((await result).result, "slept");
+  assertEquals(upload.length, 200 * 1024 * 1024);
+});
@@ -1,26 +1,55 @@
+import { convertResultBuffers } from "./blobs.ts";
 import {
+  blobStoreError,
   DEFAULT_TIMEOUT_MS,
+  type ExecuteOptions,
+  type ExecutionContext,
   ExecutionError,
-  type LogLevel,
+  type ExecutionResult,
+  executionStats,
+  isErrorCode,
+  limitError,
+  type LogEntry,
   MAX_TIMEOUT_MS,
+  memoryLimitError,
+  memoryLimitMb,
+  OUTPUT_LIMITS,
+  type PhaseTimings,
+  phaseTimings,
 } from "./executor-common.ts";
 import { RunCode } from "./model/run-code.ts";
-import { convertBuffersToDataUris } from "./utils/buffer-to-data-uri.ts";
+import { toWorkerPermissions } from "./permissions.ts";
+import { type CacheStatus } from "./utils/module-cache.ts";
+import {
+  createLogLimiter,
+  estimateSize,
+  type OutputLimits,
+} from "./utils/output-limits.ts";
 
 export { ExecutionError };
 
 interface WorkerMessage {
   type: "execute";
   data: RunCode;
+  context: ExecutionContext;
+  limits: OutputLimits; // The worker fails the job as soon as one is exceeded
+  memoryLimitMb: number; // The worker reports heap use above it
+  tenant?: string; // Modules are cached per tenant
 }
 
 interface WorkerResponse {
-  type: "success" | "error";
+  type: "log" | "heartbeat" | "memory" | "success" | "error";
+  entry?: LogEntry;
+  memoryBytes?: number;
   result?: unknown;
+  cache?: CacheStatus;
   message?: string;
   code?: string;
   stack?: string;
-  logs?: Array<{ ts: number; level: LogLevel; message: string }>;
+  startedAt?: number; // When the worker picked up the job
+  timings?: PhaseTimings;
+  peakHeapBytes?: number;
+  timersLeft?: boolean;
 }
 
 // Worker pool for reusing workers (only for isolation="none")
@@ -28,16 +57,147 @@ const WORKER_POOL_SIZE = 5; // Number of workers to keep warm
 const MAX_REQUESTS_PER_WORKER = 100; // Recycle workers after N requests
 const workerPool: Array<{
   worker: Worker;
+  key: string; // Permissions the worker was created with
+  tenant?: string; // Tenant the worker runs executions for
   busy: boolean;
   requestCount: number;
 }> = [];
+let terminatedWorkers = 0; // Workers recycled or evicted so far, for metrics
+
+// Workers run on threads of the server's process, so one stuck in synchronous
+// code can't report its heap use: the main thread watches the process RSS,
+// and the workers send their memory use as a heartbeat while they can
+const MEMORY_CHECK_INTERVAL_MS = 20; // How often the RSS is compared to the running executions' limits
+const HEARTBEAT_TIMEOUT_MS = 100; // How long a worker can go without a heartbeat before it counts as stuck
+const WORKER_RSS_OVERHEAD_MB = 32; // What a booted worker adds to the RSS besides its heap
+
+interface MemoryWatch {
+  limitBytes: number;
+  memoryBytes: number; // Heap and external memory in the worker's last heartbeat
+  lastHeartbeat?: number; // Unset until the worker picked up the execution
+  onExceeded: () => void;
+}
+
+const memoryWatches = new Set<MemoryWatch>();
+let baselineRss = 0; // Workers' RSS the running executions don't account for
+let memoryCheckTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Current size of the worker pool, for metrics
+ */
+export function workerPoolStats(): {
+  size: number;
+  busy: number;
+  recycled: number;
+} {
+  return {
+    size: workerPool.length,
+    busy: workerPool.filter((w) => w.busy).length,
+    recycled: terminatedWorkers,
+  };
+}
+
+/**
+ * Terminates every pooled worker, busy or not, for shutting the server down
+ */
+export function terminateWorkers(): void {
+  for (const { worker } of workerPool.splice(0)) {
+    worker.terminate();
+    terminatedWorkers++;
+  }
+}
+
+// RSS of the process without what the main thread holds itself, like request
+// bodies, results of worker processes and retained jobs
+function workersRss(): number {
+  const { rss, heapTotal, external } = Deno.memoryUsage();
+  return rss - heapTotal - external;
+}
+
+function checkMemory(): void {
+  const rss = workersRss();
+  const now = Date.now();
+  const watches = [...memoryWatches];
+  const budget = watches.reduce(
+    (sum, { limitBytes }) =>
+      sum + limitBytes + WORKER_RSS_OVERHEAD_MB * 1024 * 1024,
+    baselineRss,
+  );
+  // Workers that keep sending heartbeats check their own heap, only the ones
+  // that went quiet can allocate unseen
+  const stuck = watches.filter(({ lastHeartbeat }) =>
+    lastHeartbeat !== undefined && now - lastHeartbeat > HEARTBEAT_TIMEOUT_MS
+  );
+
+  if (rss > budget) {
+    for (const { onExceeded } of stuck) {
+      onExceeded();
+    }
+  } else if (stuck.length > 0) {
+    // A stuck worker may be growing: keep the baseline from before it was
+    return;
+  }
+
+  // What the remaining workers didn't report isn't theirs, e.g. idle workers,
+  // booting ones or what stopped workers hold until they yield
+  baselineRss = watches
+    .filter((watch) => !stuck.includes(watch))
+    .reduce((rest, { memoryBytes }) => rest - memoryBytes, rss);
+}
+
+/**
+ * Adds an execution with a heap limit of `memoryMb` to the budget the process
+ * RSS is checked against. `heartbeat` records the memory use its worker
+ * reported and `unwatch` removes it.
+ */
+function watchMemory(memoryMb: number, onExceeded: () => void): {
+  heartbeat: (memoryBytes: number) => void;
+  unwatch: () => void;
+} {
+  if (memoryWatches.size === 0) {
+    baselineRss = workersRss();
+    memoryCheckTimer = setInterval(checkMemory, MEMORY_CHECK_INTERVAL_MS);
+  }
+  const watch: MemoryWatch = {
+    limitBytes: memoryMb * 1024 * 1024,
+    memoryBytes: 0,
+    onExceeded,
+  };
+  memoryWatches.add(watch);
+  return {
+    heartbeat: (memoryBytes) => {
+      watch.memoryBytes = memoryBytes;
+      watch.lastHeartbeat = Date.now();
+    },
+    unwatch: () => {
+      memoryWatches.delete(watch);
+      if (memoryWatches.size === 0) {
+        clearInterval(memoryCheckTimer);
+      }
+    },
+  };
+}
 
-function getOrCreateWorker(): {
+function createWorker(permissions: Deno.PermissionOptionsObject): Worker {
+  // deno-lint-ignore no-explicit-any
+  return new (globalThis as any).Worker(
+    new URL("./worker.ts", import.meta.url).href,
+    { type: "module", deno: { permissions } },
+  ) as Worker;
+}
+
+function getOrCreateWorker(
+  permissions: Deno.PermissionOptionsObject,
+  tenant: string | undefined,
+): {
   worker: Worker;
   shouldRecycle: boolean;
 } {
-  // Try to find an idle worker
-  const idle = workerPool.find((w) => !w.busy);
+  // Try to find an idle worker with the same permissions and tenant
+  const key = JSON.stringify(permissions);
+  const idle = workerPool.find((w) =>
+    w.key === key && w.tenant === tenant && !w.busy
+  );
   if (idle) {
     idle.busy = true;
     idle.requestCount++;
@@ -45,25 +205,27 @@ function getOrCreateWorker(): {
     return { worker: idle.worker, shouldRecycle };
   }
 
+  // Make room by terminating an idle worker with other permissions
+  if (workerPool.length >= WORKER_POOL_SIZE) {
+    const evictable = workerPool.find((w) => !w.busy);
+    if (evictable) {
+      workerPool.splice(workerPool.indexOf(evictable), 1);
+      evictable.worker.terminate();
+      terminatedWorkers++;
+    }
+  }
+
   // Create a new worker if pool not full
   if (workerPool.length < WORKER_POOL_SIZE) {
-    // deno-lint-ignore no-explicit-any
-    const worker = new (globalThis as any).Worker(
-      new URL("./worker.ts", import.meta.url).href,
-      { type: "module" },
-    ) as Worker;
+    const worker = createWorker(permissions);
 
-    const poolEntry = { worker, busy: true, requestCount: 1 };
+    const poolEntry = { worker, key, tenant, busy: true, requestCount: 1 };
     workerPool.push(poolEntry);
     return { worker, shouldRecycle: false };
   }
 
   // Pool is full and all workers are busy - create a temporary worker
-  // deno-lint-ignore no-explicit-any
-  const worker = new (globalThis as any).Worker(
-    new URL("./worker.ts", import.meta.url).href,
-    { type: "module" },
-  ) as Worker;
+  const worker = createWorker(permissions);
   return { worker, shouldRecycle: true }; // Will be terminated after use
 }
 
@@ -76,6 +238,7 @@ function releaseWorker(worker: Worker, shouldRecycle: boolean) {
       const index = workerPool.indexOf(poolEntry);
       workerPool.splice(index, 1);
       worker.terminate();
+      terminatedWorkers++;
     } else {
       // Mark as idle for reuse
       poolEntry.busy = false;
@@ -83,41 +246,116 @@ function releaseWorker(worker: Worker, shouldRecycle: boolean) {
   } else {
     // Temporary worker - just terminate
     worker.terminate();
+    terminatedWorkers++;
   }
 }
 
-export function execute(runCode: RunCode): Promise<{
-  result: unknown;
-  logs: Array<{ ts: number; level: LogLevel; message: string }>;
-}> {
+export function execute(
+  runCode: RunCode,
+  options: ExecuteOptions = {},
+): Promise<ExecutionResult> {
   // Use timeout from request, default to 5 seconds, max 300 seconds
   const requestedTimeout = runCode.timeout ?? DEFAULT_TIMEOUT_MS;
   const timeoutMs = Math.min(requestedTimeout, MAX_TIMEOUT_MS);
+  const memoryMb = memoryLimitMb(runCode);
+  let memoryWatch: ReturnType<typeof watchMemory> | undefined;
+
+  return new Promise<ExecutionResult>((resolve, reject) => {
+    const start = Date.now();
+
+    // Narrow the base worker profile (throws if the request asks for more)
+    const permissions = toWorkerPermissions(runCode.permissions);
 
-  return new Promise((resolve, reject) => {
     // Get a worker from the pool (or create a new one)
-    const { worker, shouldRecycle } = getOrCreateWorker();
+    const { worker, shouldRecycle } = getOrCreateWorker(
+      permissions,
+      options.tenant,
+    );
 
     let isResolved = false;
+    const logs: LogEntry[] = []; // Collected as the worker forwards them
+    const fitsLogLimits = createLogLimiter(OUTPUT_LIMITS);
     const timers: { timeout: ReturnType<typeof setTimeout> | undefined } = {
       timeout: undefined,
     };
 
+    // Rejects with what the worker reported about the execution, if anything
+    const fail = (error: ExecutionError, data?: WorkerResponse) => {
+      error.timings = data && phaseTimings(start, data);
+      error.stats = executionStats(start, data);
+      reject(error);
+    };
+
     // Set up timeout to terminate the worker
     timers.timeout = setTimeout(() => {
       if (!isResolved) {
         isResolved = true;
         releaseWorker(worker, true); // Force recycle on timeout
-        reject(new Error("Execution timeout"));
+        fail(
+          new ExecutionError({
+            message: "Execution timeout",
+            code: "TIMEOUT_ERROR",
+            logs,
+          }),
+        );
       }
     }, timeoutMs);
 
+    // Terminate the worker if the caller cancels the execution
+    const onAbort = () => {
+      if (!isResolved) {
+        isResolved = true;
+        if (timers.timeout !== undefined) {
+          clearTimeout(timers.timeout);
+        }
+        releaseWorker(worker, true);
+        fail(
+          new ExecutionError({
+            message: "Execution cancelled",
+            code: "CANCELLED",
+            logs,
+          }),
+        );
+      }
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+
+    // Terminate the worker once the process grows past the limits of the
+    // running executions while it is stuck, even if it never got to report
+    // its heap use itself
+    memoryWatch = watchMemory(memoryMb, () => {
+      if (!isResolved) {
+        isResolved = true;
+        if (timers.timeout !== undefined) {
+          clearTimeout(timers.timeout);
+        }
+        releaseWorker(worker, true);
+        fail(memoryLimitError(memoryMb, logs));
+      }
+    });
+
     // Listen for messages from the worker
     // deno-lint-ignore no-explicit-any
     const onMessage = (e: any) => {
       if (isResolved) {
         return;
       }
+
+      const data = e.data as WorkerResponse;
+      if (data.type === "heartbeat") {
+        memoryWatch?.heartbeat(data.memoryBytes ?? 0);
+        return;
+      }
+      if (
+        data.type === "log" && data.entry && fitsLogLimits(data.entry)
+      ) {
+        logs.push(data.entry);
+        options.onLog?.(data.entry);
+        return;
+      }
       isResolved = true;
 
       if (timers.timeout !== undefined) {
@@ -128,32 +366,56 @@ export function execute(runCode: RunCode): Promise<{
       worker.onmessage = () => {};
       worker.onerror = () => {};
 
-      const data = e.data as WorkerResponse;
-      if (data.type === "success") {
-        // Convert any Uint8Array buffers to data URIs
-        // (for isolation="none", conversion happens here in the executor)
-        const convertedResult = convertBuffersToDataUris(data.result);
-
-        // Release worker back to pool (or terminate if should recycle)
-        releaseWorker(worker, shouldRecycle);
-
-        resolve({
-          result: convertedResult,
-          logs: data.logs || [],
-        });
+      if (data.type === "memory") {
+        // Over its heap limit: terminate the worker before it takes the
+        // server's memory
+        releaseWorker(worker, true);
+        fail(memoryLimitError(memoryMb, logs), data);
+      } else if (data.type === "log") {
+        // The worker should have stopped at the limit already
+        releaseWorker(worker, true);
+        fail(limitError("LOG_LIMIT_EXCEEDED", logs), data);
+      } else if (
+        data.type === "success" &&
+        estimateSize(data.result) > OUTPUT_LIMITS.maxResultBytes
+      ) {
+        releaseWorker(worker, true);
+        fail(limitError("OUTPUT_LIMIT_EXCEEDED", logs), data);
+      } else if (data.type === "success") {
+        // Release worker back to pool (or terminate if should recycle, or if
+        // timers of the job could fire during the next one)
+        releaseWorker(worker, shouldRecycle || data.timersLeft === true);
+
+        // Offload large buffers to the blob store and convert the others to
+        // data URIs (for isolation="none", conversion happens here in the
+        // executor), unless the caller wants a buffer result as bytes
+        convertResultBuffers(data.result, options.raw, options.tenant).then(
+          (convertedResult) =>
+            resolve({
+              result: convertedResult,
+              logs,
+              cache: data.cache,
+              timings: phaseTimings(start, data),
+              stats: executionStats(start, data),
+            }),
+          (error) => fail(blobStoreError(error, logs), data),
+        );
       } else {
-        const { message, stack, code, logs } = data;
+        const { message, stack, code } = data;
 
         // On error, always recycle the worker
         releaseWorker(worker, true);
 
-        reject(
-          new ExecutionError({
-            message,
-            stack,
-            code,
-            logs,
-          }),
+        fail(
+          code === "LOG_LIMIT_EXCEEDED" || code === "OUTPUT_LIMIT_EXCEEDED"
+            ? limitError(code, logs)
+            : new ExecutionError({
+              message,
+              stack,
+              code: isErrorCode(code) ? code : "USER_ERROR",
+              logs,
+            }),
+          data,
         );
       }
     };
@@ -177,7 +439,13 @@ export function execute(runCode: RunCode): Promise<{
       // On error, always recycle the worker
       releaseWorker(worker, true);
 
-      reject(new Error(`Worker error: ${error.message || "Unknown error"}`));
+      fail(
+        new ExecutionError({
+          message: `Worker error: ${error.message || "Unknown error"}`,
+          code: "WORKER_CRASH",
+          logs,
+        }),
+      );
     };
 
     worker.onmessage = onMessage;
@@ -187,7 +455,11 @@ export function execute(runCode: RunCode): Promise<{
     const message: WorkerMessage = {
       type: "execute",
       data: runCode,
+      context: { requestId: options.requestId },
+      limits: OUTPUT_LIMITS,
+      memoryLimitMb: memoryMb,
+      tenant: options.tenant,
     };
     worker.postMessage(message);
-  });
+  }).finally(() => memoryWatch?.unwatch());
 }
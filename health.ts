@@ -0,0 +1,137 @@
+/**
+ * Liveness and readiness checks for `GET /healthz` and `GET /readyz`
+ *
+ * Readiness runs a trivial script through both executors, so a deployment
+ * where `deno` or worker-process.ts can't start is reported as not ready. The
+ * report is cached for READINESS_CACHE_MS to keep frequent probes cheap.
+ */
+
+import { admissionQueues, type Isolation } from "./admission.ts";
+import {
+  execute as executeIsolated,
+  processPoolStats,
+} from "./executor-isolated.ts";
+import { execute as executeNone, workerPoolStats } from "./executor.ts";
+import { type RunCode } from "./model/run-code.ts";
+
+const READINESS_CACHE_MS = +(Deno.env.get("READINESS_CACHE_MS") || 5000); // How long a readiness report is reused
+const SELF_TEST_TIMEOUT_MS = 10000; // Longest a self-test execution may take
+
+const SELF_TEST: RunCode = {
+  script: "export function run() { return 1 + 1; }",
+  fn: "run",
+  payload: {},
+  timeout: SELF_TEST_TIMEOUT_MS,
+};
+
+export interface CheckResult {
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: number;
+  checks: {
+    deno: CheckResult & { version?: string }; // Whether `deno` can be spawned
+    process: CheckResult; // Self-test with isolation="process"
+    none: CheckResult; // Self-test with isolation="none"
+  };
+  pools: {
+    worker: ReturnType<typeof workerPoolStats>;
+    process: ReturnType<typeof processPoolStats>;
+  };
+  queues: Record<Isolation, { running: number; queued: number }>;
+}
+
+let cached: ReadinessReport | undefined;
+let pending: Promise<ReadinessReport> | undefined;
+
+async function timed(check: () => Promise<void>): Promise<CheckResult> {
+  const start = performance.now();
+  try {
+    await check();
+    return { ok: true, durationMs: performance.now() - start };
+  } catch (e) {
+    return {
+      ok: false,
+      durationMs: performance.now() - start,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
+
+async function denoVersion(): Promise<string> {
+  const { success, stdout, stderr } = await new Deno.Command("deno", {
+    args: ["--version"],
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+  if (!success) {
+    throw new Error(new TextDecoder().decode(stderr).trim());
+  }
+  return new TextDecoder().decode(stdout).split("\n")[0];
+}
+
+async function selfTest(
+  execute: (runCode: RunCode) => Promise<{ result: unknown }>,
+): Promise<void> {
+  const { result } = await execute(SELF_TEST);
+  if (result !== 2) {
+    throw new Error(`Self-test returned ${JSON.stringify(result)}`);
+  }
+}
+
+async function runChecks(): Promise<ReadinessReport> {
+  // The self-tests bypass admission control, so a busy server still reports
+  // ready instead of waiting for a slot
+  let version: string | undefined;
+  const [deno, processTest, noneTest] = await Promise.all([
+    timed(async () => {
+      version = await denoVersion();
+    }),
+    timed(() => selfTest(executeIsolated)),
+    timed(() => selfTest(executeNone)),
+  ]);
+
+  return {
+    ready: deno.ok && processTest.ok && noneTest.ok,
+    checkedAt: Date.now(),
+    checks: {
+      deno: { ...deno, version },
+      process: processTest,
+      none: noneTest,
+    },
+    pools: { worker: workerPoolStats(), process: processPoolStats() },
+    queues: {
+      process: {
+        running: admissionQueues.process.running(),
+        queued: admissionQueues.process.queued(),
+      },
+      none: {
+        running: admissionQueues.none.running(),
+        queued: admissionQueues.none.queued(),
+      },
+    },
+  };
+}
+
+/**
+ * Returns the latest readiness report, running the checks again once it is
+ * older than READINESS_CACHE_MS
+ *
+ * Concurrent calls share one run of the checks.
+ */
+export function checkReadiness(): Promise<ReadinessReport> {
+  if (cached && Date.now() - cached.checkedAt < READINESS_CACHE_MS) {
+    return Promise.resolve(cached);
+  }
+  pending ??= runChecks().then((report) => {
+    cached = report;
+    return report;
+  }).finally(() => {
+    pending = undefined;
+  });
+  return pending;
+}
@@ -0,0 +1,39 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createJob, deleteJob, getJob } from "./jobs.ts";
+
+Deno.test("jobs - belong to the tenant that created them", async () => {
+  const job = createJob(
+    () => Promise.resolve({ result: 1, logs: [] }),
+    undefined,
+    "a",
+  );
+  await job.settled;
+
+  assertEquals(getJob(job.id, "b"), undefined);
+  assertEquals(getJob(job.id, undefined), undefined);
+  assertEquals(await deleteJob(job.id, "b"), undefined);
+
+  assertEquals(getJob(job.id, "a")?.result, 1);
+  assertEquals(await deleteJob(job.id, "a"), job);
+  assertEquals(getJob(job.id, "a"), undefined);
+});
+
+Deno.test("jobs - forgets the oldest finished jobs beyond the limits", async () => {
+  const run = (result: unknown) =>
+    createJob(() => Promise.resolve({ result, logs: [] }));
+
+  // Counted as 100 MB each, the third goes over the 256 MB kept by default
+  const buffer = new Uint8Array(100 * 1024 * 1024);
+  const large = [run(buffer), run(buffer), run(buffer)];
+  await Promise.all(large.map((job) => job.settled));
+  assertEquals(getJob(large[0].id, undefined), undefined);
+  assertEquals(getJob(large[1].id, undefined)?.status, "succeeded");
+  assertEquals(getJob(large[2].id, undefined)?.status, "succeeded");
+
+  // 1000 finished jobs are kept by default
+  const small = Array.from({ length: 1000 }, (_, i) => run(i));
+  await Promise.all(small.map((job) => job.settled));
+  assertEquals(getJob(large[2].id, undefined), undefined);
+  assertEquals(getJob(small[0].id, undefined)?.result, 0);
+  assertEquals(getJob(small[999].id, undefined)?.result, 999);
+});
@@ -0,0 +1,188 @@
+/**
+ * In-memory store for asynchronous executions started via `POST /jobs`
+ */
+
+import {
+  ExecutionError,
+  type ExecutionResult,
+  type ExecutionStats,
+  type LogEntry,
+} from "./executor-common.ts";
+import { type CacheStatus } from "./utils/module-cache.ts";
+import { estimateSize } from "./utils/output-limits.ts";
+
+export type JobStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  requestId?: string; // ID of the request that created the job
+  tenant?: string; // Tenant that created the job, the only one that can see or cancel it
+  status: JobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  result?: unknown;
+  cache?: CacheStatus;
+  queueWaitMs?: number;
+  stats?: ExecutionStats;
+  logs: LogEntry[];
+  error?: { message: string; stack?: string; code?: string };
+  controller: AbortController;
+  settled: Promise<void>;
+}
+
+const JOB_RETENTION_MS = +(Deno.env.get("JOB_RETENTION_MS") || 3600000); // Finished jobs are kept for 1 hour by default
+const MAX_FINISHED_JOBS = +(Deno.env.get("MAX_FINISHED_JOBS") || 1000); // Finished jobs kept at once, the oldest are forgotten first
+const MAX_FINISHED_JOB_BYTES = +(
+  Deno.env.get("MAX_FINISHED_JOB_BYTES") || 256 * 1024 * 1024
+); // Results and logs of the finished jobs kept at once (default: 256 MB)
+
+const jobs = new Map<string, Job>();
+
+// Finished jobs in the order they finished -> size of their result and logs
+const finished = new Map<string, number>();
+let finishedBytes = 0;
+
+function forgetJob(id: string): void {
+  jobs.delete(id);
+  finishedBytes -= finished.get(id) ?? 0;
+  finished.delete(id);
+}
+
+function finishJob(job: Job, status: JobStatus): void {
+  job.status = status;
+  job.finishedAt = Date.now();
+
+  const size = estimateSize(job.result) + estimateSize(job.logs);
+  finished.set(job.id, size);
+  finishedBytes += size;
+
+  // Forget the oldest finished jobs beyond the limits, but never the one that
+  // just finished
+  for (const id of finished.keys()) {
+    if (
+      finished.size <= 1 ||
+      (finished.size <= MAX_FINISHED_JOBS &&
+        finishedBytes <= MAX_FINISHED_JOB_BYTES)
+    ) {
+      break;
+    }
+    forgetJob(id);
+  }
+
+  // Forget the job once the retention period is over
+  const timer = setTimeout(() => forgetJob(job.id), JOB_RETENTION_MS);
+  Deno.unrefTimer(timer);
+}
+
+/**
+ * Starts a job in the background and returns it right away
+ */
+export function createJob(
+  run: (
+    signal: AbortSignal,
+    onLog: (entry: LogEntry) => void,
+  ) => Promise<ExecutionResult>,
+  requestId?: string,
+  tenant?: string,
+): Job {
+  const job: Job = {
+    id: crypto.randomUUID(),
+    requestId,
+    tenant,
+    status: "running",
+    createdAt: Date.now(),
+    logs: [],
+    controller: new AbortController(),
+    settled: Promise.resolve(),
+  };
+  jobs.set(job.id, job);
+
+  // Logs show up in GET /jobs/:id while the job is still running
+  const onLog = (entry: LogEntry) => job.logs.push(entry);
+
+  job.settled = run(job.controller.signal, onLog).then(
+    ({ result, logs, cache, queueWaitMs, stats }) => {
+      job.result = result;
+      job.logs = logs;
+      job.cache = cache;
+      job.queueWaitMs = queueWaitMs;
+      job.stats = stats;
+      finishJob(job, "succeeded");
+    },
+    (e) => {
+      if (e instanceof ExecutionError) {
+        const { message, stack, code, logs, queueWaitMs, stats } = e;
+        job.error = { message, stack, code };
+        job.logs = logs;
+        job.queueWaitMs = queueWaitMs;
+        job.stats = stats;
+      } else {
+        job.error = { message: e instanceof Error ? e.message : String(e) };
+      }
+      finishJob(job, job.controller.signal.aborted ? "cancelled" : "failed");
+    },
+  );
+
+  return job;
+}
+
+/**
+ * Returns a job of the tenant, jobs of other tenants are not found
+ */
+export function getJob(
+  id: string,
+  tenant: string | undefined,
+): Job | undefined {
+  const job = jobs.get(id);
+  return job?.tenant === tenant ? job : undefined;
+}
+
+/**
+ * Cancels a running job of the tenant, or removes a finished one from the
+ * store
+ */
+export async function deleteJob(
+  id: string,
+  tenant: string | undefined,
+): Promise<Job | undefined> {
+  const job = getJob(id, tenant);
+  if (job?.status === "running") {
+    job.controller.abort();
+    await job.settled;
+  } else if (job) {
+    forgetJob(id);
+  }
+  return job;
+}
+
+/**
+ * Public representation of a job
+ */
+export function toJobResponse(job: Job): Record<string, unknown> {
+  const {
+    id,
+    requestId,
+    status,
+    createdAt,
+    finishedAt,
+    result,
+    cache,
+    queueWaitMs,
+    stats,
+    logs,
+    error,
+  } = job;
+  return {
+    id,
+    requestId,
+    status,
+    createdAt,
+    finishedAt,
+    result,
+    cache,
+    queueWaitMs,
+    stats,
+    logs,
+    error,
+  };
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { type ErrorCode, ExecutionError } from "./executor-common.ts";
+import { outcomeOf, renderMetrics, trackExecution } from "./metrics.ts";
+
+Deno.test("metrics - labels outcomes by error code", () => {
+  const error = (code: ErrorCode) => new ExecutionError({ message: "x", code });
+
+  assertEquals(outcomeOf(), "success");
+  assertEquals(outcomeOf(error("TIMEOUT_ERROR")), "TIMEOUT_ERROR");
+  assertEquals(outcomeOf(error("MEMORY_LIMIT_ERROR")), "MEMORY_LIMIT_ERROR");
+  assertEquals(outcomeOf(error("WORKER_CRASH")), "WORKER_CRASH");
+  assertEquals(outcomeOf(error("BLOB_STORE_ERROR")), "BLOB_STORE_ERROR");
+  assertEquals(outcomeOf(error("USER_ERROR")), "user_error");
+  assertEquals(outcomeOf(error("SYNTAX_ERROR")), "user_error");
+  assertEquals(outcomeOf(new Error("bad")), "user_error");
+});
+
+Deno.test("metrics - counts executions and their durations", () => {
+  const finish = trackExecution("none");
+  assertEquals(
+    renderMetrics().includes('piper_executions_in_flight{isolation="none"} 1'),
+    true,
+  );
+
+  finish(new ExecutionError({ message: "x", code: "TIMEOUT_ERROR" }));
+  trackExecution("none")();
+
+  const lines = renderMetrics().split("\n");
+  for (
+    const line of [
+      'piper_executions_total{isolation="none",outcome="TIMEOUT_ERROR"} 1',
+      'piper_executions_total{isolation="none",outcome="success"} 1',
+      'piper_executions_in_flight{isolation="none"} 0',
+      'piper_execution_duration_seconds_bucket{isolation="none",le="+Inf"} 2',
+      'piper_execution_duration_seconds_count{isolation="none"} 2',
+      "# TYPE piper_execution_duration_seconds histogram",
+      "piper_processes_spawned_total 0",
+    ]
+  ) {
+    assertEquals(lines.includes(line), true, line);
+  }
+});
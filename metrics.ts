@@ -0,0 +1,223 @@
+/**
+ * Prometheus metrics, served in the text exposition format by `GET /metrics`
+ */
+
+import { admissionQueues, type Isolation } from "./admission.ts";
+import { ExecutionError } from "./executor-common.ts";
+import { processPoolStats } from "./executor-isolated.ts";
+import { workerPoolStats } from "./executor.ts";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const ISOLATION_MODES: Isolation[] = ["process", "none"];
+
+// Upper bounds of the duration histogram buckets, in seconds
+const DURATION_BUCKETS = [
+  0.01,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  30,
+  60,
+  300,
+];
+
+// Error codes reported as their own outcome; any other failure is a user error
+const OUTCOME_CODES = [
+  "TIMEOUT_ERROR",
+  "MEMORY_LIMIT_ERROR",
+  "CANCELLED",
+  "LOG_LIMIT_EXCEEDED",
+  "OUTPUT_LIMIT_EXCEEDED",
+  "WORKER_CRASH",
+  "BLOB_STORE_ERROR",
+];
+
+interface Histogram {
+  buckets: number[]; // Observations per bucket of DURATION_BUCKETS, not cumulative
+  sum: number;
+  count: number;
+}
+
+const executions = new Map<string, number>(); // "isolation outcome" -> count
+const durations = {} as Record<Isolation, Histogram>;
+const inFlight = {} as Record<Isolation, number>;
+for (const isolation of ISOLATION_MODES) {
+  durations[isolation] = {
+    buckets: DURATION_BUCKETS.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+  inFlight[isolation] = 0;
+}
+
+/**
+ * Outcome label of a finished execution: "success", the code of a timeout,
+ * memory limit, cancellation, output limit, crash or blob store failure, and
+ * "user_error" otherwise
+ */
+export function outcomeOf(error?: unknown): string {
+  if (error === undefined) {
+    return "success";
+  }
+  if (
+    error instanceof ExecutionError && error.code &&
+    OUTCOME_CODES.includes(error.code)
+  ) {
+    return error.code;
+  }
+  return "user_error";
+}
+
+/**
+ * Counts an execution as in flight and returns the function to call once it
+ * finished, with the error it failed with, if any
+ */
+export function trackExecution(
+  isolation: Isolation,
+): (error?: unknown) => void {
+  const start = performance.now();
+  inFlight[isolation]++;
+
+  return (error) => {
+    inFlight[isolation]--;
+
+    const key = `${isolation} ${outcomeOf(error)}`;
+    executions.set(key, (executions.get(key) ?? 0) + 1);
+
+    const seconds = (performance.now() - start) / 1000;
+    const histogram = durations[isolation];
+    const bucket = DURATION_BUCKETS.findIndex((bound) => seconds <= bound);
+    if (bucket !== -1) {
+      histogram.buckets[bucket]++;
+    }
+    histogram.sum += seconds;
+    histogram.count++;
+  };
+}
+
+// Label values come from fixed sets, so they never need escaping
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([name, value]) =>
+    `${name}="${value}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+function metric(
+  name: string,
+  type: "counter" | "gauge" | "histogram",
+  help: string,
+  samples: string[],
+): string {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join(
+    "\n",
+  );
+}
+
+/**
+ * Renders every metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const workers = workerPoolStats();
+  const processes = processPoolStats();
+
+  const histogramSamples = ISOLATION_MODES.flatMap((isolation) => {
+    const { buckets, sum, count } = durations[isolation];
+    let cumulative = 0;
+    return [
+      ...DURATION_BUCKETS.map((bound, i) => {
+        cumulative += buckets[i];
+        return `piper_execution_duration_seconds_bucket${
+          labels({ isolation, le: String(bound) })
+        } ${cumulative}`;
+      }),
+      `piper_execution_duration_seconds_bucket${
+        labels({ isolation, le: "+Inf" })
+      } ${count}`,
+      `piper_execution_duration_seconds_sum${labels({ isolation })} ${sum}`,
+      `piper_execution_duration_seconds_count${labels({ isolation })} ${count}`,
+    ];
+  });
+
+  return [
+    metric(
+      "piper_executions_total",
+      "counter",
+      "Finished executions by isolation mode and outcome",
+      [...executions].map(([key, count]) => {
+        const [isolation, outcome] = key.split(" ");
+        return `piper_executions_total${
+          labels({ isolation, outcome })
+        } ${count}`;
+      }),
+    ),
+    metric(
+      "piper_execution_duration_seconds",
+      "histogram",
+      "Execution time, without the time spent in the queue",
+      histogramSamples,
+    ),
+    metric(
+      "piper_executions_in_flight",
+      "gauge",
+      "Executions running right now",
+      ISOLATION_MODES.map((isolation) =>
+        `piper_executions_in_flight${labels({ isolation })} ${
+          inFlight[isolation]
+        }`
+      ),
+    ),
+    metric(
+      "piper_executions_queued",
+      "gauge",
+      "Executions waiting for a slot",
+      ISOLATION_MODES.map((isolation) =>
+        `piper_executions_queued${labels({ isolation })} ${
+          admissionQueues[isolation].queued()
+        }`
+      ),
+    ),
+    metric(
+      "piper_worker_pool_size",
+      "gauge",
+      'Pooled workers for isolation "none"',
+      [`piper_worker_pool_size ${workers.size}`],
+    ),
+    metric(
+      "piper_worker_pool_busy",
+      "gauge",
+      "Pooled workers running an execution",
+      [`piper_worker_pool_busy ${workers.busy}`],
+    ),
+    metric(
+      "piper_workers_recycled_total",
+      "counter",
+      "Workers terminated after an error, timeout or their maximum of requests",
+      [`piper_workers_recycled_total ${workers.recycled}`],
+    ),
+    metric(
+      "piper_process_pool_size",
+      "gauge",
+      'Pooled processes for isolation "process"',
+      [`piper_process_pool_size ${processes.size}`],
+    ),
+    metric(
+      "piper_process_pool_busy",
+      "gauge",
+      "Pooled processes running an execution",
+      [`piper_process_pool_busy ${processes.busy}`],
+    ),
+    metric(
+      "piper_processes_spawned_total",
+      "counter",
+      "Worker processes spawned, pooled or temporary",
+      [`piper_processes_spawned_total ${processes.spawned}`],
+    ),
+  ].join("\n") + "\n";
+}
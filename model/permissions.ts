@@ -0,0 +1,21 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+
+// Deno splits flag values on commas, so entries must not contain one
+const PermissionEntrySchema = z
+  .string()
+  .min(1)
+  .refine((entry) => !entry.includes(","), "Entries must not contain commas");
+
+export const PermissionsSchema = z.union([
+  z.literal("none"),
+  z
+    .object({
+      net: z.array(PermissionEntrySchema).optional(), // Hosts, e.g. "api.example.com" or "api.example.com:443"
+      read: z.array(PermissionEntrySchema).optional(), // Absolute paths (files or directories)
+      write: z.array(PermissionEntrySchema).optional(), // Absolute paths (files or directories)
+      env: z.array(PermissionEntrySchema).optional(), // Environment variable names
+    })
+    .strict(),
+]);
+
+export type Permissions = z.infer<typeof PermissionsSchema>;
@@ -1,4 +1,6 @@
 import { z } from "https://esm.sh/zod@3.22.4";
+import { type InputFile } from "../utils/input-files.ts";
+import { PermissionsSchema } from "./permissions.ts";
 
 export const RunCodeSchema = z.object({
   script: z.string().min(1),
@@ -6,6 +8,26 @@ export const RunCodeSchema = z.object({
   payload: z.record(z.any()),
   timeout: z.number().int().min(1).optional(), // Optional timeout in milliseconds (will be capped at 300 seconds in executor)
   isolation: z.enum(["none", "process"]).optional(), // Optional isolation mode (default: "process")
+  memoryMb: z.number().int().min(16).optional(), // Optional heap limit in MB of the process or worker (default: PER_WORKER_MEMORY_MB, capped at MAX_MEMORY_MB)
+  permissions: PermissionsSchema.optional(), // Optional permissions profile (default: none for "process", the worker base profile for "none")
+  stream: z.enum(["sse", "ndjson"]).optional(), // Optional live log streaming (default: chosen by the Accept header)
+  raw: z.boolean().optional(), // Optional raw binary response for Uint8Array results, with "Accept: */*" (default: false)
+  logArgs: z.boolean().optional(), // Optional raw console arguments as JSON in each log entry (default: false)
+  decodeInputs: z.boolean().optional(), // Optional decoding of base64 data URIs in the payload into Uint8Arrays (default: false)
 });
 
-export type RunCode = z.infer<typeof RunCodeSchema>;
+export type RunCode = z.infer<typeof RunCodeSchema> & {
+  files?: InputFile[]; // Files uploaded as multipart/form-data parts, set by the server
+};
+
+// What clients send: inline code or a reference to a registered script
+export const RunCodeRequestSchema = RunCodeSchema.extend({
+  script: z.string().min(1).optional(),
+  scriptRef: z.string().min(1).optional(), // Registered script: "name@version" or "sha256:<hex>"
+}).refine(
+  (request) =>
+    (request.script === undefined) !== (request.scriptRef === undefined),
+  'Exactly one of "script" or "scriptRef" is required',
+);
+
+export type RunCodeRequest = z.infer<typeof RunCodeRequestSchema>;
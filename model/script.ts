@@ -0,0 +1,23 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+
+// Names and versions end up in URLs and "name@version" references
+const IDENTIFIER = /^[A-Za-z0-9._-]+$/;
+
+export const ScriptNameSchema = z
+  .string()
+  .regex(
+    IDENTIFIER,
+    "Names may only contain letters, digits, '.', '_' and '-'",
+  );
+
+export const ScriptSchema = z.object({
+  version: z
+    .string()
+    .regex(
+      IDENTIFIER,
+      "Versions may only contain letters, digits, '.', '_' and '-'",
+    ), // Versions are immutable once stored
+  script: z.string().min(1),
+});
+
+export type Script = z.infer<typeof ScriptSchema>;
@@ -0,0 +1,28 @@
+import { z } from "https://esm.sh/zod@3.22.4";
+
+export const TenantSchema = z
+  .object({
+    name: z.string().min(1),
+    keys: z.array(z.string().min(16)).min(1), // API keys of the tenant, sent as "Authorization: Bearer <key>" or "X-API-Key"
+    isolation: z.array(z.enum(["none", "process"])).min(1).optional(), // Allowed isolation modes (default: only "process")
+    maxTimeoutMs: z.number().int().min(1).optional(), // Longest timeout a request may ask for (default: the server maximum)
+    maxMemoryMb: z.number().int().min(1).optional(), // Largest memoryMb a request may ask for (default: PER_WORKER_MEMORY_MB)
+    maxConcurrent: z.number().int().min(1).optional(), // Executions running or queued at once (default: no limit but the server's)
+  })
+  .strict();
+
+export const TenantConfigSchema = z
+  .object({
+    tenants: z.array(TenantSchema),
+  })
+  .strict()
+  .refine(
+    ({ tenants }) => {
+      const keys = tenants.flatMap((tenant) => tenant.keys);
+      return new Set(keys).size === keys.length;
+    },
+    "An API key must belong to a single tenant",
+  );
+
+export type Tenant = z.infer<typeof TenantSchema>;
+export type TenantConfig = z.infer<typeof TenantConfigSchema>;
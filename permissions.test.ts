@@ -0,0 +1,128 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  NO_PERMISSIONS,
+  type PermissionGrants,
+  resolvePermissions,
+  toDenoFlags,
+  toWorkerPermissions,
+} from "./permissions.ts";
+
+const max: PermissionGrants = {
+  net: ["api.example.com", "db.internal:5432"],
+  read: ["/data"],
+  write: ["/tmp/out/"],
+  env: ["LANG"],
+};
+
+Deno.test("permissions - defaults to no permissions", () => {
+  assertEquals(resolvePermissions(undefined, max), NO_PERMISSIONS);
+  assertEquals(resolvePermissions("none", max), NO_PERMISSIONS);
+  assertEquals(toDenoFlags(NO_PERMISSIONS), []);
+});
+
+Deno.test("permissions - grants entries within the maximum", () => {
+  const grants = resolvePermissions(
+    {
+      net: ["api.example.com:443", "db.internal:5432"],
+      read: ["/data", "/data/images/a.png"],
+      write: ["/tmp/out/result.json"],
+      env: ["LANG"],
+    },
+    max,
+  );
+
+  assertEquals(toDenoFlags(grants), [
+    "--allow-net=api.example.com:443,db.internal:5432",
+    "--allow-read=/data,/data/images/a.png",
+    "--allow-write=/tmp/out/result.json",
+    "--allow-env=LANG",
+  ]);
+});
+
+Deno.test("permissions - rejects entries beyond the maximum", () => {
+  assertThrows(
+    () => resolvePermissions({ net: ["evil.example.com"] }, max),
+    Error,
+    'Permission not allowed: net "evil.example.com"',
+  );
+  assertThrows(
+    () => resolvePermissions({ net: ["db.internal:80"] }, max),
+    Error,
+    "Permission not allowed",
+  );
+  assertThrows(
+    () => resolvePermissions({ read: ["/database"] }, max),
+    Error,
+    "Permission not allowed",
+  );
+  assertThrows(
+    () => resolvePermissions({ read: ["/data/../etc/passwd"] }, max),
+    Error,
+    "Permission not allowed",
+  );
+  assertThrows(
+    () => resolvePermissions({ env: ["AWS_SECRET_ACCESS_KEY"] }, max),
+    Error,
+    "Permission not allowed",
+  );
+});
+
+Deno.test("permissions - wildcard maximum allows any entry", () => {
+  const grants = resolvePermissions(
+    { net: ["anything.example.com"] },
+    { ...NO_PERMISSIONS, net: ["*"] },
+  );
+  assertEquals(toDenoFlags(grants), ["--allow-net=anything.example.com"]);
+});
+
+Deno.test("permissions - worker base profile denies the rest", () => {
+  const base: PermissionGrants = { ...NO_PERMISSIONS, net: ["*"], read: ["*"] };
+
+  assertEquals(toWorkerPermissions(undefined, base), {
+    net: true,
+    read: true,
+    write: false,
+    env: false,
+    run: false,
+    ffi: false,
+    sys: false,
+  });
+  assertEquals(toWorkerPermissions({ net: ["api.example.com"] }, base), {
+    net: ["api.example.com"],
+    read: false,
+    write: false,
+    env: false,
+    run: false,
+    ffi: false,
+    sys: false,
+  });
+  assertThrows(
+    () => toWorkerPermissions({ env: ["HOME"] }, base),
+    Error,
+    'Permission not allowed: env "HOME"',
+  );
+});
+
+Deno.test({
+  name: "permissions - workers get nothing unless the operator allows it",
+  ignore: [
+    "WORKER_NET_HOSTS",
+    "WORKER_READ_PATHS",
+    "WORKER_WRITE_PATHS",
+    "WORKER_ENV_VARS",
+  ].some((name) => Deno.env.get(name) !== undefined),
+  fn() {
+    assertEquals(toWorkerPermissions(undefined), {
+      net: false,
+      read: false,
+      write: false,
+      env: false,
+      run: false,
+      ffi: false,
+      sys: false,
+    });
+  },
+});
@@ -0,0 +1,142 @@
+/**
+ * Permission profiles for user code: validation against the operator-configured
+ * maximum and translation into Deno permission flags (process isolation) or
+ * Web Worker permission options (no isolation)
+ */
+
+import { type Permissions } from "./model/permissions.ts";
+
+export type { Permissions };
+
+export type PermissionName = "net" | "read" | "write" | "env";
+
+export type PermissionGrants = Record<PermissionName, string[]>;
+
+const PERMISSION_NAMES: PermissionName[] = ["net", "read", "write", "env"];
+
+// Grants nothing at all
+export const NO_PERMISSIONS: PermissionGrants = {
+  net: [],
+  read: [],
+  write: [],
+  env: [],
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+// Maximum permissions a request may ask for, as comma-separated lists ("*" allows anything)
+export const MAX_PERMISSIONS: PermissionGrants = {
+  net: parseList(Deno.env.get("ALLOWED_NET_HOSTS")),
+  read: parseList(Deno.env.get("ALLOWED_READ_PATHS")),
+  write: parseList(Deno.env.get("ALLOWED_WRITE_PATHS")),
+  env: parseList(Deno.env.get("ALLOWED_ENV_VARS")),
+};
+
+// Base profile of "none" isolation workers in the same format, empty unless the
+// operator widens it; requests can only narrow it
+export const WORKER_PERMISSIONS: PermissionGrants = {
+  net: parseList(Deno.env.get("WORKER_NET_HOSTS")),
+  read: parseList(Deno.env.get("WORKER_READ_PATHS")),
+  write: parseList(Deno.env.get("WORKER_WRITE_PATHS")),
+  env: parseList(Deno.env.get("WORKER_ENV_VARS")),
+};
+
+function isHostAllowed(host: string, allowed: string): boolean {
+  if (allowed === host) return true;
+  // A host without a port allows every port of that host
+  return !allowed.includes(":") && host.startsWith(`${allowed}:`);
+}
+
+function isPathAllowed(path: string, allowed: string): boolean {
+  if (!path.startsWith("/") || path.split("/").includes("..")) {
+    return false;
+  }
+  const base = allowed.endsWith("/") ? allowed.slice(0, -1) : allowed;
+  return path === base || path.startsWith(`${base}/`);
+}
+
+function isEntryAllowed(
+  name: PermissionName,
+  entry: string,
+  allowed: string,
+): boolean {
+  if (allowed === "*") return true;
+  switch (name) {
+    case "net":
+      return isHostAllowed(entry, allowed);
+    case "read":
+    case "write":
+      return isPathAllowed(entry, allowed);
+    case "env":
+      return entry === allowed;
+  }
+}
+
+/**
+ * Validates requested permissions against a maximum and returns the grants
+ *
+ * Omitted permissions and the "none" profile grant nothing. Throws if any
+ * requested entry is not covered by the maximum.
+ */
+export function resolvePermissions(
+  requested: Permissions | undefined,
+  max: PermissionGrants = MAX_PERMISSIONS,
+): PermissionGrants {
+  if (requested === undefined || requested === "none") {
+    return NO_PERMISSIONS;
+  }
+
+  const grants: PermissionGrants = { net: [], read: [], write: [], env: [] };
+  for (const name of PERMISSION_NAMES) {
+    for (const entry of requested[name] || []) {
+      if (!max[name].some((allowed) => isEntryAllowed(name, entry, allowed))) {
+        throw new Error(`Permission not allowed: ${name} "${entry}"`);
+      }
+      grants[name].push(entry);
+    }
+  }
+  return grants;
+}
+
+/**
+ * Translates grants into `deno run` permission flags
+ */
+export function toDenoFlags(grants: PermissionGrants): string[] {
+  return PERMISSION_NAMES.filter((name) => grants[name].length > 0).map(
+    (name) => `--allow-${name}=${grants[name].join(",")}`,
+  );
+}
+
+/**
+ * Translates a request's permissions into Web Worker permission options
+ *
+ * Workers get the base profile unless the request narrows it. Anything the
+ * profile does not mention, including running subprocesses, is denied.
+ */
+export function toWorkerPermissions(
+  requested: Permissions | undefined,
+  base: PermissionGrants = WORKER_PERMISSIONS,
+): Deno.PermissionOptionsObject {
+  const grants = requested === undefined
+    ? base
+    : resolvePermissions(requested, base);
+  const toOption = (entries: string[]): boolean | string[] => {
+    if (entries.includes("*")) return true;
+    return entries.length > 0 ? entries : false;
+  };
+
+  return {
+    net: toOption(grants.net),
+    read: toOption(grants.read),
+    write: toOption(grants.write),
+    env: toOption(grants.env),
+    run: false,
+    ffi: false,
+    sys: false,
+  };
+}
@@ -0,0 +1,100 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  deleteScript,
+  listScripts,
+  putScript,
+  resolveScriptRef,
+  ScriptConflictError,
+} from "./scripts.ts";
+import { TenantPolicyError } from "./tenants.ts";
+
+Deno.test("scripts - stores versions with a content hash", async () => {
+  const script = "export function run() { return 1; }";
+  const { entry, created } = await putScript(
+    undefined,
+    "hash-test",
+    "1.0.0",
+    script,
+  );
+
+  assertEquals(created, true);
+  assertEquals(entry.hash.startsWith("sha256:"), true);
+  assertEquals(entry.hash.length, "sha256:".length + 64);
+  assertEquals(entry.size, script.length);
+
+  // Same content again is accepted without creating anything
+  const again = await putScript(undefined, "hash-test", "1.0.0", script);
+  assertEquals(again.created, false);
+  assertEquals(again.entry.hash, entry.hash);
+
+  deleteScript(undefined, "hash-test");
+});
+
+Deno.test("scripts - versions are immutable", async () => {
+  await putScript(undefined, "immutable-test", "1", "export const a = 1;");
+  await assertRejects(
+    () => putScript(undefined, "immutable-test", "1", "export const a = 2;"),
+    ScriptConflictError,
+  );
+  deleteScript(undefined, "immutable-test");
+});
+
+Deno.test("scripts - resolves name@version and sha256 references", async () => {
+  const { entry } = await putScript(
+    undefined,
+    "ref-test",
+    "2.0",
+    "export const b = 2;",
+  );
+
+  assertEquals(resolveScriptRef(undefined, "ref-test@2.0"), entry);
+  assertEquals(resolveScriptRef(undefined, entry.hash), entry);
+  assertEquals(resolveScriptRef(undefined, "ref-test@3.0"), undefined);
+  assertEquals(resolveScriptRef(undefined, "ref-test"), undefined);
+  assertEquals(
+    resolveScriptRef(undefined, `sha256:${"0".repeat(64)}`),
+    undefined,
+  );
+
+  deleteScript(undefined, "ref-test");
+});
+
+Deno.test("scripts - deletes one or all versions", async () => {
+  await putScript(undefined, "delete-test", "1", "export const c = 1;");
+  await putScript(undefined, "delete-test", "2", "export const c = 2;");
+  await putScript(undefined, "delete-test", "3", "export const c = 3;");
+
+  assertEquals(deleteScript(undefined, "delete-test", "1").length, 1);
+  assertEquals(listScripts(undefined, "delete-test").map((e) => e.version), [
+    "2",
+    "3",
+  ]);
+  assertEquals(deleteScript(undefined, "delete-test", "1").length, 0);
+  assertEquals(deleteScript(undefined, "delete-test").length, 2);
+  assertEquals(listScripts(undefined, "delete-test"), []);
+});
+
+Deno.test("scripts - belong to the tenant that stored them", async () => {
+  const { entry } = await putScript(
+    "a",
+    "owned-test",
+    "1",
+    "export const d = 1;",
+  );
+
+  assertEquals(listScripts("b", "owned-test"), []);
+  assertEquals(listScripts("b").includes(entry), false);
+  assertEquals(resolveScriptRef("b", "owned-test@1"), undefined);
+  assertEquals(resolveScriptRef("b", entry.hash), undefined);
+  assertEquals(deleteScript("b", "owned-test"), []);
+  await assertRejects(
+    () => putScript("b", "owned-test", "2", "export const d = 2;"),
+    TenantPolicyError,
+  );
+
+  assertEquals(resolveScriptRef("a", "owned-test@1"), entry);
+  assertEquals(deleteScript("a", "owned-test").length, 1);
+});
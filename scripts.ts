@@ -0,0 +1,157 @@
+/**
+ * In-memory registry of named, versioned scripts managed via `/scripts`
+ *
+ * Every version is stored with the SHA-256 hash of its content and can't be
+ * changed once stored, so a reference always points to the same code. A script
+ * name belongs to the tenant that stored its first version, other tenants
+ * can't see, change or run it.
+ */
+
+import { TenantPolicyError } from "./tenants.ts";
+import { sha256Hex } from "./utils/hash.ts";
+
+export interface ScriptVersion {
+  name: string;
+  version: string;
+  hash: string; // "sha256:<hex>" of the script text
+  size: number; // Length of the script text
+  createdAt: number;
+  script: string;
+  tenant?: string; // Tenant that stored the script, unset without API keys
+}
+
+/**
+ * Thrown when a stored version is put again with different content
+ */
+export class ScriptConflictError extends Error {}
+
+// name -> version -> script
+const scripts = new Map<string, Map<string, ScriptVersion>>();
+
+// Versions of a script, if its name belongs to the tenant
+function ownVersions(
+  tenant: string | undefined,
+  name: string,
+): Map<string, ScriptVersion> | undefined {
+  const versions = scripts.get(name);
+  const owner = versions?.values().next().value?.tenant;
+  return versions && owner === tenant ? versions : undefined;
+}
+
+/**
+ * Stores a script version
+ *
+ * Putting the same content again is a no-op, `created` tells both cases apart.
+ * Throws TenantPolicyError when the name belongs to another tenant.
+ */
+export async function putScript(
+  tenant: string | undefined,
+  name: string,
+  version: string,
+  script: string,
+): Promise<{ entry: ScriptVersion; created: boolean }> {
+  const hash = `sha256:${await sha256Hex(script)}`;
+  if (scripts.has(name) && !ownVersions(tenant, name)) {
+    throw new TenantPolicyError(`Script ${name} belongs to another tenant`);
+  }
+  const versions = scripts.get(name) ?? new Map<string, ScriptVersion>();
+
+  const existing = versions.get(version);
+  if (existing) {
+    if (existing.hash !== hash) {
+      throw new ScriptConflictError(
+        `Script ${name}@${version} already exists with different content`,
+      );
+    }
+    return { entry: existing, created: false };
+  }
+
+  const entry: ScriptVersion = {
+    name,
+    version,
+    hash,
+    size: script.length,
+    createdAt: Date.now(),
+    script,
+    tenant,
+  };
+  versions.set(version, entry);
+  scripts.set(name, versions);
+  return { entry, created: true };
+}
+
+/**
+ * Lists the tenant's stored versions, of one script or of all its scripts
+ */
+export function listScripts(
+  tenant: string | undefined,
+  name?: string,
+): ScriptVersion[] {
+  if (name !== undefined) {
+    return [...(ownVersions(tenant, name)?.values() ?? [])];
+  }
+  return [...scripts.keys()].flatMap((name) => [
+    ...(ownVersions(tenant, name)?.values() ?? []),
+  ]);
+}
+
+export function getScript(
+  tenant: string | undefined,
+  name: string,
+  version: string,
+): ScriptVersion | undefined {
+  return ownVersions(tenant, name)?.get(version);
+}
+
+/**
+ * Deletes one version, or every version of a script of the tenant, and
+ * returns what was deleted
+ */
+export function deleteScript(
+  tenant: string | undefined,
+  name: string,
+  version?: string,
+): ScriptVersion[] {
+  const versions = ownVersions(tenant, name);
+  if (!versions) return [];
+
+  if (version === undefined) {
+    scripts.delete(name);
+    return [...versions.values()];
+  }
+
+  const entry = versions.get(version);
+  if (!entry) return [];
+  versions.delete(version);
+  if (versions.size === 0) {
+    scripts.delete(name);
+  }
+  return [entry];
+}
+
+/**
+ * Finds the tenant's script a `scriptRef` points to: "name@version" or
+ * "sha256:<hex>"
+ */
+export function resolveScriptRef(
+  tenant: string | undefined,
+  ref: string,
+): ScriptVersion | undefined {
+  if (ref.startsWith("sha256:")) {
+    return listScripts(tenant).find((entry) => entry.hash === ref);
+  }
+
+  const at = ref.lastIndexOf("@");
+  if (at <= 0) return undefined;
+  return getScript(tenant, ref.slice(0, at), ref.slice(at + 1));
+}
+
+/**
+ * Public representation of a script version, without the script text
+ */
+export function toScriptResponse(
+  entry: ScriptVersion,
+): Record<string, unknown> {
+  const { name, version, hash, size, createdAt } = entry;
+  return { name, version, hash, size, createdAt };
+}
@@ -405,3 +405,700 @@ Deno.test({
   sanitizeResources: false,
   sanitizeOps: false,
 });
+
+// Polls a job until it is no longer running
+async function waitForJob(id: string) {
+  while (true) {
+    const response = await fetch(`${BASE_URL}/jobs/${id}`);
+    const job = await response.json();
+    if (job.status !== "running") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+Deno.test({
+  name: "server - async job returns id and result",
+  async fn() {
+    const script = `
+      export async function run(inputs) {
+        console.log("Job started");
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return { value: inputs.value * 2 };
+      }
+    `;
+
+    const response = await fetch(`${BASE_URL}/jobs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ script, fn: "run", payload: { value: 21 } }),
+    });
+    assertEquals(response.status, 202);
+
+    const { id, status } = await response.json();
+    assertEquals(status, "running");
+    assertEquals(response.headers.get("Location"), `/jobs/${id}`);
+
+    const job = await waitForJob(id);
+    assertEquals(job.status, "succeeded");
+    assertEquals(job.result, { value: 42 });
+    assertEquals(job.logs[0].message, "Job started");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - async job reports execution errors",
+  async fn() {
+    const script = `
+      export function run(inputs) {
+        while(true) {}
+      }
+    `;
+
+    const response = await fetch(`${BASE_URL}/jobs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ script, fn: "run", payload: {}, timeout: 500 }),
+    });
+    const { id } = await response.json();
+
+    const job = await waitForJob(id);
+    assertEquals(job.status, "failed");
+    assertEquals(job.error.message, "Execution timeout");
+    assertEquals(job.error.code, "TIMEOUT_ERROR");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - async job can be cancelled",
+  async fn() {
+    const script = `
+      export function run(inputs) {
+        while(true) {}
+      }
+    `;
+
+    const response = await fetch(`${BASE_URL}/jobs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ script, fn: "run", payload: {}, timeout: 60000 }),
+    });
+    const { id } = await response.json();
+
+    const cancelled = await fetch(`${BASE_URL}/jobs/${id}`, {
+      method: "DELETE",
+    });
+    assertEquals(cancelled.status, 200);
+
+    const job = await cancelled.json();
+    assertEquals(job.status, "cancelled");
+    assertEquals(job.error.code, "CANCELLED");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - rejects disallowed permissions before creating a job",
+  async fn() {
+    const response = await fetch(`${BASE_URL}/jobs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        script: `export function run() { return "unreachable"; }`,
+        fn: "run",
+        payload: {},
+        permissions: { net: ["evil.example.com"] },
+      }),
+    });
+    assertEquals(response.status, 400);
+
+    const data = await response.json();
+    assertEquals(data.code, "VALIDATION_ERROR");
+    assertEquals(data.error, 'Permission not allowed: net "evil.example.com"');
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - unknown job returns 404",
+  async fn() {
+    const response = await fetch(`${BASE_URL}/jobs/does-not-exist`);
+    assertEquals(response.status, 404);
+    await response.body?.cancel();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - streams logs as NDJSON",
+  async fn() {
+    const script = `
+      export async function run(inputs) {
+        console.log("first");
+        await new Promise(resolve => setTimeout(resolve, 100));
+        console.warn("second");
+        return { done: true };
+      }
+    `;
+
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/x-ndjson",
+      },
+      body: JSON.stringify({ script, fn: "run", payload: {} }),
+    });
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "application/x-ndjson");
+
+    const events = (await response.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    assertEquals(
+      events.map((event) => event.type),
+      ["log", "log", "result"],
+    );
+    assertEquals(events[0].message, "first");
+    assertEquals(events[1].level, "warn");
+    assertEquals(events[2].result, { done: true });
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - streams logs as Server-Sent Events",
+  async fn() {
+    const script = `
+      export function run(inputs) {
+        console.log("before loop");
+        while(true) {}
+      }
+    `;
+
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        script,
+        fn: "run",
+        payload: {},
+        timeout: 500,
+        stream: "sse",
+      }),
+    });
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+
+    const text = await response.text();
+    const events = text.trim().split("\n\n").map((block) => {
+      const [event, data] = block.split("\n");
+      return {
+        event: event.slice("event: ".length),
+        data: JSON.parse(data.slice("data: ".length)),
+      };
+    });
+    assertEquals(events[0].event, "log");
+    assertEquals(events[0].data.message, "before loop");
+    assertEquals(events[1].event, "error");
+    assertEquals(events[1].data.code, "TIMEOUT_ERROR");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - runs registered scripts by reference",
+  async fn() {
+    const script = `
+      export function run(inputs) {
+        return { doubled: inputs.value * 2 };
+      }
+    `;
+
+    const put = await fetch(`${BASE_URL}/scripts/doubler`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ version: "1.0.0", script }),
+    });
+    assertEquals(put.status, 201);
+    const { hash } = await put.json();
+
+    // Both references point to the same code, so the second run reuses the
+    // module compiled by the first one
+    const caches = [];
+    for (const scriptRef of ["doubler@1.0.0", hash]) {
+      const response = await fetch(BASE_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scriptRef, fn: "run", payload: { value: 21 } }),
+      });
+      assertEquals(response.status, 200);
+      const data = await response.json();
+      assertEquals(data.result, { doubled: 42 });
+      caches.push(data.cache);
+    }
+    assertEquals(caches, ["miss", "hit"]);
+
+    const get = await fetch(`${BASE_URL}/scripts/doubler/1.0.0`);
+    assertEquals((await get.json()).script, script);
+
+    // Stored versions can't be overwritten
+    const conflict = await fetch(`${BASE_URL}/scripts/doubler`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ version: "1.0.0", script: "export const x = 1;" }),
+    });
+    assertEquals(conflict.status, 409);
+    await conflict.body?.cancel();
+
+    const deleted = await fetch(`${BASE_URL}/scripts/doubler`, {
+      method: "DELETE",
+    });
+    assertEquals(deleted.status, 200);
+    await deleted.body?.cancel();
+
+    const missing = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        scriptRef: "doubler@1.0.0",
+        fn: "run",
+        payload: {},
+      }),
+    });
+    assertEquals(missing.status, 400);
+    assertEquals(
+      (await missing.json()).error,
+      "Script not found: doubler@1.0.0",
+    );
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - accepts multipart requests with file parts",
+  async fn() {
+    const script = `
+      export function run(inputs) {
+        return {
+          size: inputs.image.length,
+          filename: inputs.image.filename,
+          mimeType: inputs.image.mimeType,
+          label: inputs.label,
+        };
+      }
+    `;
+    const png = new Uint8Array([
+      0x89,
+      0x50,
+      0x4e,
+      0x47,
+      0x0d,
+      0x0a,
+      0x1a,
+      0x0a,
+    ]);
+
+    const form = new FormData();
+    form.append(
+      "request",
+      JSON.stringify({ script, fn: "run", payload: { label: "photo" } }),
+    );
+    // No declared type: detected from the content
+    form.append("image", new Blob([png]), "photo.png");
+
+    const response = await fetch(BASE_URL, { method: "POST", body: form });
+    assertEquals(response.status, 200);
+    assertEquals((await response.json()).result, {
+      size: 8,
+      filename: "photo.png",
+      mimeType: "image/png",
+      label: "photo",
+    });
+
+    // The JSON part is validated like a JSON body
+    const invalid = new FormData();
+    invalid.append("request", JSON.stringify({ fn: "run", payload: {} }));
+    invalid.append("image", new Blob([png]), "photo.png");
+    const rejected = await fetch(BASE_URL, { method: "POST", body: invalid });
+    assertEquals(rejected.status, 400);
+    await rejected.body?.cancel();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - returns buffer results as raw bytes when accepted",
+  async fn() {
+    const script = `
+      export function run() {
+        console.log("rendering");
+        return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      }
+    `;
+
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/octet-stream",
+      },
+      body: JSON.stringify({ script, fn: "run", payload: {} }),
+    });
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "image/png");
+    const logs = JSON.parse(
+      decodeURIComponent(response.headers.get("X-Logs") as string),
+    );
+    assertEquals(logs[0].message, "rendering");
+    assertEquals(
+      new Uint8Array(await response.arrayBuffer()),
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    );
+
+    // Same request through the raw flag, and in "none" isolation
+    const flagged = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "*/*" },
+      body: JSON.stringify({
+        script,
+        fn: "run",
+        payload: {},
+        raw: true,
+        isolation: "none",
+      }),
+    });
+    assertEquals(flagged.headers.get("Content-Type"), "image/png");
+    assertEquals((await flagged.arrayBuffer()).byteLength, 8);
+
+    // JSON with a data URI otherwise
+    const encoded = await postCode(script, "run", {});
+    assertEquals(
+      (await encoded.json()).result,
+      "data:image/png;base64,iVBORw0KGgo=",
+    );
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - serves large buffer results from the blob store",
+  async fn() {
+    const script = `
+      export function run() {
+        const image = new Uint8Array(2 * 1024 * 1024);
+        image.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        return { image };
+      }
+    `;
+
+    for (const isolation of ["process", "none"]) {
+      const response = await fetch(BASE_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ script, fn: "run", payload: {}, isolation }),
+      });
+      const { image } = (await response.json()).result;
+      assertEquals(image.mime, "image/png");
+      assertEquals(image.size, 2 * 1024 * 1024);
+
+      const blob = await fetch(`${BASE_URL}/blobs/${image.$blob}`);
+      assertEquals(blob.status, 200);
+      assertEquals(blob.headers.get("Content-Type"), "image/png");
+      assertEquals((await blob.arrayBuffer()).byteLength, 2 * 1024 * 1024);
+    }
+
+    const missing = await fetch(`${BASE_URL}/blobs/${"0".repeat(64)}`);
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - reports the time spent waiting for a slot",
+  async fn() {
+    const script = `export function run() { return "done"; }`;
+
+    const response = await postCode(script, "run", {});
+    assertEquals(response.status, 200);
+
+    const data = await response.json();
+    assertEquals(data.result, "done");
+    assertEquals(typeof data.queueWaitMs, "number");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - exposes Prometheus metrics",
+  async fn() {
+    await postCode(`export function run() { return 1; }`, "run", {});
+
+    const response = await fetch(`${BASE_URL}/metrics`);
+    assertEquals(response.status, 200);
+    assertEquals(
+      response.headers.get("Content-Type")?.startsWith("text/plain"),
+      true,
+    );
+
+    const text = await response.text();
+    assertEquals(
+      /piper_executions_total\{isolation="process",outcome="success"\} \d+/
+        .test(text),
+      true,
+    );
+    assertEquals(/piper_process_pool_size \d+/.test(text), true);
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - answers liveness and readiness probes",
+  async fn() {
+    const health = await fetch(`${BASE_URL}/healthz`);
+    assertEquals(health.status, 200);
+    assertEquals(await health.json(), { status: "ok" });
+
+    const ready = await fetch(`${BASE_URL}/readyz`);
+    const report = await ready.json();
+    assertEquals(ready.status, 200);
+    assertEquals(report.ready, true);
+    assertEquals(report.checks.deno.ok, true);
+    assertEquals(report.checks.process.ok, true);
+    assertEquals(report.checks.none.ok, true);
+    assertEquals(typeof report.pools.process.size, "number");
+    assertEquals(typeof report.queues.process.queued, "number");
+
+    // A second probe right away gets the cached report
+    const again = await (await fetch(`${BASE_URL}/readyz`)).json();
+    assertEquals(again.checkedAt, report.checkedAt);
+
+    const post = await fetch(`${BASE_URL}/healthz`, { method: "POST" });
+    assertEquals(post.status, 405);
+    await post.body?.cancel();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - echoes the request ID and hands it to the script",
+  async fn() {
+    const script = `
+      export function run(inputs, context) {
+        console.log("[" + context.requestId + "] running");
+        return context.requestId;
+      }
+    `;
+
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Id": "trace-123",
+      },
+      body: JSON.stringify({ script, fn: "run", payload: {} }),
+    });
+    assertEquals(response.headers.get("X-Request-Id"), "trace-123");
+    const data = await response.json();
+    assertEquals(data.result, "trace-123");
+    assertEquals(data.logs[0].message, "[trace-123] running");
+
+    // Without a header the server makes one up
+    const generated = await postCode(script, "run", {});
+    const id = generated.headers.get("X-Request-Id");
+    assertEquals(typeof id, "string");
+    assertEquals((await generated.json()).result, id);
+
+    const notFound = await fetch(`${BASE_URL}/jobs/unknown`);
+    assertEquals(typeof notFound.headers.get("X-Request-Id"), "string");
+    await notFound.body?.cancel();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - execution errors and jobs carry the request ID",
+  async fn() {
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Id": "failing-1",
+      },
+      body: JSON.stringify({
+        script: `export function run() { throw new Error("boom"); }`,
+        fn: "run",
+        payload: {},
+      }),
+    });
+    assertEquals(response.status, 422);
+    assertEquals((await response.json()).requestId, "failing-1");
+
+    const created = await fetch(`${BASE_URL}/jobs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Id": "job-1",
+      },
+      body: JSON.stringify({
+        script: `export function run(inputs, context) { return context; }`,
+        fn: "run",
+        payload: {},
+      }),
+    });
+    const { id } = await created.json();
+
+    const job = await waitForJob(id);
+    assertEquals(job.requestId, "job-1");
+    assertEquals(job.result, { requestId: "job-1" });
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - maps error codes to the same status in both isolation modes",
+  async fn() {
+    const cases = [
+      ["export function run( {", "SYNTAX_ERROR", 422],
+      ["export function other() {}", "MISSING_EXPORT", 422],
+      [`export function run() { throw new Error("boom"); }`, "USER_ERROR", 422],
+    ] as const;
+
+    for (const isolation of ["process", "none"]) {
+      for (const [script, code, status] of cases) {
+        const response = await fetch(BASE_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ script, fn: "run", payload: {}, isolation }),
+        });
+        assertEquals(response.status, status, `${isolation}: ${script}`);
+        const data = await response.json();
+        assertEquals(data.code, code, `${isolation}: ${script}`);
+        assertEquals(typeof data.message, "string");
+        assertEquals(Array.isArray(data.logs), true);
+      }
+    }
+
+    const crash = await postCode(
+      `export function run() { Deno.exit(1); }`,
+      "run",
+      {},
+    );
+    assertEquals(crash.status, 500);
+    assertEquals((await crash.json()).code, "WORKER_CRASH");
+
+    const outOfMemory = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        script: `export function run() {
+          const chunks = [];
+          while (true) chunks.push(new Array(100000).fill(Math.random()));
+        }`,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+      }),
+    });
+    assertEquals(outOfMemory.status, 422);
+    const data = await outOfMemory.json();
+    assertEquals([data.code, data.memoryLimitMb], ["MEMORY_LIMIT_ERROR", 32]);
+
+    // A worker can't be stopped before it yields, so the loop ends by itself
+    const workerOutOfMemory = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        script: `export function run() {
+          const chunks = [];
+          while (chunks.length < 300) {
+            chunks.push(new Array(100000).fill(Math.random()));
+          }
+          const end = Date.now() + 3000;
+          while (Date.now() < end);
+          return chunks.length;
+        }`,
+        fn: "run",
+        payload: {},
+        memoryMb: 32,
+        isolation: "none",
+      }),
+    });
+    assertEquals(workerOutOfMemory.status, 422);
+    const workerData = await workerOutOfMemory.json();
+    assertEquals(
+      [workerData.code, workerData.memoryLimitMb],
+      ["MEMORY_LIMIT_ERROR", 32],
+    );
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - validation errors list the zod issues",
+  async fn() {
+    const response = await fetch(BASE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        script: "x",
+        fn: "run",
+        payload: {},
+        timeout: -1,
+      }),
+    });
+    assertEquals(response.status, 400);
+
+    const data = await response.json();
+    assertEquals(data.code, "VALIDATION_ERROR");
+    assertEquals(data.issues[0].path, ["timeout"]);
+    assertEquals(data.error.startsWith("timeout: "), true);
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test({
+  name: "server - responses and errors carry resource usage stats",
+  async fn() {
+    const response = await postCode(
+      `export function run() { return 1; }`,
+      "run",
+      {},
+    );
+    const { stats } = await response.json();
+    assertEquals(typeof stats.durationMs, "number");
+    assertEquals(typeof stats.peakHeapBytes, "number");
+
+    const failed = await postCode(
+      `export function run() { throw new Error("boom"); }`,
+      "run",
+      {},
+    );
+    assertEquals(failed.status, 422);
+    assertEquals(typeof (await failed.json()).stats.executeMs, "number");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
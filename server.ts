@@ -1,65 +1,696 @@
 import { Request, serve } from "https://deno.land/std/http/server.ts";
+import { z } from "https://esm.sh/zod@3.22.4";
+import {
+  AdmissionError,
+  admissionQueues,
+  RETRY_AFTER_SECONDS,
+} from "./admission.ts";
+import {
+  ERROR_STATUS,
+  type ExecuteOptions,
+  ExecutionError,
+  type ExecutionResult,
+  type ExecutionStats,
+  PER_WORKER_MEMORY_MB,
+  type PhaseTimings,
+} from "./executor-common.ts";
+import { openBlob } from "./blobs.ts";
+import { checkReadiness } from "./health.ts";
 import {
   execute as executeIsolated,
   ExecutionError as ExecutionErrorIsolated,
+  warmUp,
 } from "./executor-isolated.ts";
 import {
   execute as executeNone,
   ExecutionError as ExecutionErrorNone,
 } from "./executor.ts";
-import { RunCodeSchema } from "./model/run-code.ts";
+import { createJob, deleteJob, getJob, toJobResponse } from "./jobs.ts";
+import {
+  METRICS_CONTENT_TYPE,
+  outcomeOf,
+  renderMetrics,
+  trackExecution,
+} from "./metrics.ts";
+import { RunCode, RunCodeRequestSchema } from "./model/run-code.ts";
+import { ScriptNameSchema, ScriptSchema } from "./model/script.ts";
+import { resolvePermissions, toWorkerPermissions } from "./permissions.ts";
+import {
+  deleteScript,
+  getScript,
+  listScripts,
+  putScript,
+  resolveScriptRef,
+  ScriptConflictError,
+  toScriptResponse,
+} from "./scripts.ts";
+import { drain, isDraining, shutdownSignal, trackRequest } from "./shutdown.ts";
+import {
+  acquireTenantSlot,
+  applyTenantPolicy,
+  authenticate,
+  AuthenticationError,
+  checkTenantCapacity,
+  isAuthEnabled,
+  type Tenant,
+  TenantPolicyError,
+} from "./tenants.ts";
+import {
+  type AccessLogEntry,
+  logAccess,
+  logExecution,
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+} from "./tracing.ts";
+import { resolveMimeType } from "./utils/buffer-to-data-uri.ts";
+import {
+  encodeEvent,
+  STREAM_CONTENT_TYPES,
+  type StreamFormat,
+  streamFormatFromAccept,
+} from "./utils/event-stream.ts";
+import { type InputFile } from "./utils/input-files.ts";
+import { acceptsRaw, rawResponse } from "./utils/raw-response.ts";
+
+const MULTIPART_REQUEST_FIELD = "request"; // Form field with the JSON request in multipart bodies
 
-const PER_WORKER_MEMORY_MB = +(Deno.env.get("PER_WORKER_MEMORY_MB") || 128);
+const JOB_ROUTE = new URLPattern({ pathname: "/jobs/:id" });
+const BLOB_ROUTE = new URLPattern({ pathname: "/blobs/:id" });
+const SCRIPT_ROUTE = new URLPattern({ pathname: "/scripts/:name{/:version}?" });
 
 console.log(
   `🚀 Server starting with configurable isolation (default: process, ${PER_WORKER_MEMORY_MB}M per worker)`,
 );
+if (!isAuthEnabled()) {
+  console.warn(
+    "⚠️  No API keys configured (API_KEYS_FILE or API_KEYS), every request is accepted",
+  );
+}
 
-serve(
-  async (req: Request) => {
-    if (req.method !== "POST") {
-      return new Response("Only POST", { status: 405 });
-    }
+// Boot worker processes before the first request arrives
+warmUp();
 
-    try {
-      const json = await req.json();
-      const parsed = RunCodeSchema.parse(json);
+interface RunOptions extends ExecuteOptions {
+  validationMs?: number; // Time spent reading and checking the request
+}
+
+/**
+ * Waits for an execution slot (see admission.ts), then runs the code, reports
+ * how long it waited and logs the time each phase took (see tracing.ts)
+ *
+ * The execution counts against the tenant's concurrency limit from the start,
+ * queued or not.
+ */
+async function execute(
+  runCode: RunCode,
+  tenant: Tenant | undefined,
+  { validationMs, ...options }: RunOptions = {},
+): Promise<ExecutionResult> {
+  const releaseTenant = acquireTenantSlot(tenant);
+  try {
+    // Processes, workers and cached modules are kept apart per tenant
+    options.tenant = tenant?.name;
+    // Cancelled by the client, or on shutdown once the drain deadline passed
+    options.signal = options.signal
+      ? AbortSignal.any([options.signal, shutdownSignal])
+      : shutdownSignal;
+
+    const isolation = runCode.isolation ?? "process";
+    const { release, waitMs } = await admissionQueues[isolation].acquire(
+      options.signal,
+    );
 
+    const finish = trackExecution(isolation);
+    const log = (
+      { timings, stats }: { timings?: PhaseTimings; stats?: ExecutionStats },
+      error?: unknown,
+    ) =>
+      logExecution({
+        requestId: options.requestId,
+        tenant: tenant?.name,
+        isolation,
+        outcome: outcomeOf(error),
+        code: error instanceof ExecutionError ? error.code : undefined,
+        phases: { validationMs, queueMs: waitMs, ...timings },
+        stats,
+      });
+    try {
       // Choose executor based on isolation mode (default: "process")
-      const isolationMode = parsed.isolation ?? "process";
-      const execute =
-        isolationMode === "process" ? executeIsolated : executeNone;
-
-      const { result, logs } = await execute(parsed);
-
-      // Buffer-to-data-URI conversion is now handled inside each executor:
-      // - For "process" isolation: done in worker-process.ts before JSON serialization
-      // - For "none" isolation: done in executor.ts after receiving result from worker
-
-      return Response.json({ result, logs });
-    } catch (e: any) {
-      // If it's an ExecutionError (user code error), return 422 with stack trace and logs
-      if (
-        e instanceof ExecutionErrorIsolated ||
-        e instanceof ExecutionErrorNone
-      ) {
-        const { message, stack, code, logs } = e;
-        return Response.json(
-          {
-            message,
-            stack,
-            code,
-            logs,
-          },
-          { status: 422 },
-        );
+      const result = isolation === "process"
+        ? await executeIsolated(runCode, options)
+        : await executeNone(runCode, options);
+      finish();
+      log(result);
+      return { ...result, queueWaitMs: waitMs };
+    } catch (e) {
+      finish(e);
+      if (e instanceof ExecutionError) {
+        e.queueWaitMs = waitMs;
+        e.requestId = options.requestId;
+      }
+      log(e instanceof ExecutionError ? e : {}, e);
+      throw e;
+    } finally {
+      release();
+    }
+  } finally {
+    releaseTenant();
+  }
+}
+
+/**
+ * Rejects a request up front if its execution could not even be queued, for
+ * responses that can't carry a 429 once they have started
+ */
+function checkCapacity(runCode: RunCode, tenant: Tenant | undefined): void {
+  checkTenantCapacity(tenant);
+  if (!admissionQueues[runCode.isolation ?? "process"].hasCapacity()) {
+    throw new AdmissionError("Too many executions, try again later");
+  }
+}
+
+/**
+ * Reads a JSON body, or a multipart/form-data body made of a `request` field
+ * with the JSON and any number of file parts
+ */
+async function readRequestBody(
+  req: Request,
+): Promise<{ json: unknown; files: InputFile[] }> {
+  const contentType = req.headers.get("Content-Type") ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return { json: await req.json(), files: [] };
+  }
+
+  const form = await req.formData();
+  const request = form.get(MULTIPART_REQUEST_FIELD);
+  if (request === null) {
+    throw new Error(`Missing form field "${MULTIPART_REQUEST_FIELD}"`);
+  }
+  const json = JSON.parse(
+    typeof request === "string" ? request : await request.text(),
+  );
+
+  const fileParts = [...form].filter(
+    ([field]) => field !== MULTIPART_REQUEST_FIELD,
+  );
+  const files = await Promise.all(
+    fileParts.map(async ([field, value]) => {
+      if (typeof value === "string") {
+        throw new Error(`Form field "${field}" must be a file`);
+      }
+      const data = new Uint8Array(await value.arrayBuffer());
+      return {
+        field,
+        filename: value.name,
+        mimeType: resolveMimeType(data, value.type),
+        data,
+      };
+    }),
+  );
+  return { json, files };
+}
+
+/**
+ * Validates the request body and replaces a `scriptRef` with the tenant's
+ * registered script it points to
+ *
+ * Permissions beyond what the isolation mode allows are rejected here, before
+ * the request waits for a slot. The executors resolve them again.
+ */
+async function parseRunCode(
+  req: Request,
+  tenant: Tenant | undefined,
+): Promise<RunCode> {
+  const { json, files } = await readRequestBody(req);
+  const { scriptRef, ...parsed } = RunCodeRequestSchema.parse(json);
+  if (parsed.isolation === "none") {
+    toWorkerPermissions(parsed.permissions);
+  } else {
+    resolvePermissions(parsed.permissions);
+  }
+
+  // Files are added to the payload, they must not replace anything in it
+  for (const { field } of files) {
+    if (field in parsed.payload) {
+      throw new Error(`File field "${field}" conflicts with a payload field`);
+    }
+  }
+
+  if (scriptRef === undefined) {
+    return { ...parsed, script: parsed.script as string, files };
+  }
+
+  const entry = resolveScriptRef(tenant?.name, scriptRef);
+  if (!entry) {
+    throw new Error(`Script not found: ${scriptRef}`);
+  }
+  return { ...parsed, script: entry.script, files };
+}
+
+function errorBody(e: any): {
+  status: number;
+  body: Record<string, unknown>;
+} {
+  // If it's an ExecutionError, return its code's status (see
+  // utils/error-codes.ts) with stack trace and logs
+  if (e instanceof ExecutionErrorIsolated || e instanceof ExecutionErrorNone) {
+    const {
+      message,
+      stack,
+      code,
+      logs,
+      queueWaitMs,
+      stats,
+      requestId,
+      memoryLimitMb,
+    } = e;
+    return {
+      status: ERROR_STATUS[code],
+      body: {
+        message,
+        stack,
+        code,
+        memoryLimitMb,
+        logs,
+        queueWaitMs,
+        stats,
+        requestId,
+      },
+    };
+  }
+  // Too busy to run it now, see admission.ts
+  if (e instanceof AdmissionError) {
+    return { status: 429, body: { error: e.message } };
+  }
+  // No valid API key, or not allowed for the tenant, see tenants.ts
+  if (e instanceof AuthenticationError) {
+    return { status: 401, body: { error: e.message } };
+  }
+  if (e instanceof TenantPolicyError) {
+    return { status: 403, body: { error: e.message } };
+  }
+  // Anything else is an invalid request: schema violations come with the
+  // zod issues, other problems (unknown script, bad permissions) without
+  if (e instanceof z.ZodError) {
+    return {
+      status: ERROR_STATUS.VALIDATION_ERROR,
+      body: {
+        error: e.issues
+          .map(({ path, message }) =>
+            path.length ? `${path.join(".")}: ${message}` : message
+          )
+          .join("; "),
+        code: "VALIDATION_ERROR",
+        issues: e.issues,
+      },
+    };
+  }
+  return {
+    status: ERROR_STATUS.VALIDATION_ERROR,
+    body: { error: e.message, code: "VALIDATION_ERROR" },
+  };
+}
+
+function errorResponse(e: any): Response {
+  const { status, body } = errorBody(e);
+  const headers = new Headers();
+  if (status === 429) {
+    headers.set("Retry-After", String(RETRY_AFTER_SECONDS));
+  }
+  if (status === 401) {
+    headers.set("WWW-Authenticate", "Bearer");
+  }
+  return Response.json(body, { status, headers });
+}
+
+/**
+ * Runs the code and streams each log entry as it is produced, followed by a
+ * final "result" or "error" event carrying the non-streaming response body
+ */
+function streamRun(
+  runCode: RunCode,
+  tenant: Tenant | undefined,
+  format: StreamFormat,
+  options: RunOptions,
+): Response {
+  const controller = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    start(stream): void {
+      const send = (event: string, data: Record<string, unknown>) => {
+        if (!controller.signal.aborted) {
+          stream.enqueue(encodeEvent(format, event, data));
+        }
+      };
+
+      execute(runCode, tenant, {
+        ...options,
+        signal: controller.signal,
+        onLog: (entry) => send("log", { ...entry }),
+      })
+        .then(
+          ({ result, logs, cache, queueWaitMs, stats }) =>
+            send("result", { result, logs, cache, queueWaitMs, stats }),
+          (e) => send("error", errorBody(e).body),
+        )
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            stream.close();
+          }
+        });
+    },
+    cancel(): void {
+      // The client went away, stop the execution
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": STREAM_CONTENT_TYPES[format],
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+async function handleRun(
+  req: Request,
+  tenant: Tenant | undefined,
+  requestId: string,
+): Promise<Response> {
+  try {
+    const start = performance.now();
+    const parsed = applyTenantPolicy(tenant, await parseRunCode(req, tenant));
+    const validationMs = performance.now() - start;
+
+    // Stream logs live when asked to, via the request or the Accept header
+    const format = parsed.stream ??
+      streamFormatFromAccept(req.headers.get("Accept"));
+    if (format) {
+      checkCapacity(parsed, tenant);
+      return streamRun(parsed, tenant, format, { requestId, validationMs });
+    }
+
+    // Keep a buffer result as bytes if the client can take a raw response
+    const raw = acceptsRaw(req.headers.get("Accept"), parsed.raw);
+    const { result, logs, cache, queueWaitMs, stats } = await execute(
+      parsed,
+      tenant,
+      {
+        raw,
+        requestId,
+        validationMs,
+      },
+    );
+    if (result instanceof Uint8Array) {
+      const response = rawResponse(result, logs, cache);
+      response.headers.set("X-Queue-Wait-Ms", String(queueWaitMs));
+      response.headers.set("X-Execution-Stats", JSON.stringify(stats));
+      return response;
+    }
+
+    // Buffer-to-data-URI conversion is now handled inside each executor:
+    // - For "process" isolation: done in worker-process.ts before JSON serialization
+    // - For "none" isolation: done in executor.ts after receiving result from worker
+
+    return Response.json({ result, logs, cache, queueWaitMs, stats });
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+async function handleCreateJob(
+  req: Request,
+  tenant: Tenant | undefined,
+  requestId: string,
+): Promise<Response> {
+  try {
+    const start = performance.now();
+    const parsed = applyTenantPolicy(tenant, await parseRunCode(req, tenant));
+    const validationMs = performance.now() - start;
+    checkCapacity(parsed, tenant);
+
+    // Run in the background, the client polls GET /jobs/:id for the outcome
+    const job = createJob(
+      (signal, onLog) =>
+        execute(parsed, tenant, { signal, onLog, requestId, validationMs }),
+      requestId,
+      tenant?.name,
+    );
+
+    return Response.json(
+      { id: job.id, status: job.status },
+      { status: 202, headers: { Location: `/jobs/${job.id}` } },
+    );
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+async function handleJob(
+  req: Request,
+  id: string,
+  tenant: Tenant | undefined,
+): Promise<Response> {
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    return new Response("Only GET or DELETE", { status: 405 });
+  }
+
+  // DELETE cancels a running job (killing its worker or process). Jobs of
+  // other tenants are not found.
+  const job = req.method === "GET"
+    ? getJob(id, tenant?.name)
+    : await deleteJob(id, tenant?.name);
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404 });
+  }
+  return Response.json(toJobResponse(job));
+}
+
+async function handleBlob(
+  req: Request,
+  id: string,
+  tenant: Tenant | undefined,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return new Response("Only GET", { status: 405 });
+  }
+
+  // Blobs of other tenants are not found
+  const blob = await openBlob(id, tenant?.name);
+  if (!blob) {
+    return Response.json({ error: "Blob not found" }, { status: 404 });
+  }
+  // Blobs are content-addressed, so their bytes never change, but only their
+  // tenant may see them
+  return new Response(blob.file.readable, {
+    headers: {
+      "Content-Type": blob.mime,
+      "Content-Length": String(blob.size),
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
+
+async function handleScripts(
+  req: Request,
+  name: string,
+  version: string | undefined,
+  tenant: Tenant | undefined,
+): Promise<Response> {
+  try {
+    ScriptNameSchema.parse(name);
+
+    if (req.method === "PUT" && version === undefined) {
+      const { version, script } = ScriptSchema.parse(await req.json());
+      const { entry, created } = await putScript(
+        tenant?.name,
+        name,
+        version,
+        script,
+      );
+      return Response.json(toScriptResponse(entry), {
+        status: created ? 201 : 200,
+        headers: { Location: `/scripts/${name}/${version}` },
+      });
+    }
+
+    if (req.method === "GET" && version === undefined) {
+      const versions = listScripts(tenant?.name, name);
+      if (versions.length === 0) {
+        return Response.json({ error: "Script not found" }, { status: 404 });
+      }
+      return Response.json(versions.map(toScriptResponse));
+    }
+
+    if (req.method === "GET") {
+      // The only place the script text itself is returned
+      const entry = getScript(tenant?.name, name, version as string);
+      if (!entry) {
+        return Response.json({ error: "Script not found" }, { status: 404 });
+      }
+      return Response.json({
+        ...toScriptResponse(entry),
+        script: entry.script,
+      });
+    }
+
+    if (req.method === "DELETE") {
+      // Without a version every version of the script is deleted
+      const deleted = deleteScript(tenant?.name, name, version);
+      if (deleted.length === 0) {
+        return Response.json({ error: "Script not found" }, { status: 404 });
       }
-      // For other errors (validation, timeout, etc.), return 400
-      return Response.json({ error: e.message }, { status: 400 });
+      return Response.json(deleted.map(toScriptResponse));
     }
+
+    return new Response("Only GET, PUT or DELETE", { status: 405 });
+  } catch (e: any) {
+    if (e instanceof ScriptConflictError) {
+      return Response.json({ error: e.message }, { status: 409 });
+    }
+    return errorResponse(e);
+  }
+}
+
+function handleRequest(
+  req: Request,
+  tenant: Tenant | undefined,
+  requestId: string,
+): Response | Promise<Response> {
+  const url = new URL(req.url);
+
+  if (url.pathname === "/jobs" && req.method === "POST") {
+    return handleCreateJob(req, tenant, requestId);
+  }
+
+  if (url.pathname === "/metrics") {
+    if (req.method !== "GET") {
+      return new Response("Only GET", { status: 405 });
+    }
+    return new Response(renderMetrics(), {
+      headers: { "Content-Type": METRICS_CONTENT_TYPE },
+    });
+  }
+
+  if (url.pathname === "/scripts") {
+    if (req.method !== "GET") {
+      return new Response("Only GET", { status: 405 });
+    }
+    return Response.json(listScripts(tenant?.name).map(toScriptResponse));
+  }
+
+  const scriptRoute = SCRIPT_ROUTE.exec(url);
+  if (scriptRoute) {
+    const { name, version } = scriptRoute.pathname.groups;
+    return handleScripts(req, name as string, version, tenant);
+  }
+
+  const blobRoute = BLOB_ROUTE.exec(url);
+  if (blobRoute) {
+    return handleBlob(req, blobRoute.pathname.groups.id as string, tenant);
+  }
+
+  const jobRoute = JOB_ROUTE.exec(url);
+  if (jobRoute) {
+    return handleJob(req, jobRoute.pathname.groups.id as string, tenant);
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Only POST", { status: 405 });
+  }
+
+  return handleRun(req, tenant, requestId);
+}
+
+/**
+ * Answers the orchestrator's probes, which come without an API key
+ */
+async function handleProbe(req: Request, pathname: string): Promise<Response> {
+  if (req.method !== "GET") {
+    return new Response("Only GET", { status: 405 });
+  }
+  if (pathname === "/healthz") {
+    return Response.json({ status: "ok" });
+  }
+  // Still alive while draining, but no longer taking work
+  if (isDraining()) {
+    return Response.json({ ready: false, draining: true }, { status: 503 });
+  }
+  const report = await checkReadiness();
+  return Response.json(report, { status: report.ready ? 200 : 503 });
+}
+
+/**
+ * Authenticates the request, unless it's a probe, and hands it to its route
+ */
+async function dispatch(
+  req: Request,
+  access: AccessLogEntry,
+): Promise<Response> {
+  if (access.path === "/healthz" || access.path === "/readyz") {
+    return handleProbe(req, access.path);
+  }
+  if (isDraining()) {
+    return Response.json(
+      { error: "Server is shutting down" },
+      { status: 503, headers: { Connection: "close" } },
+    );
+  }
+
+  // Every other route requires a valid API key once keys are configured
+  let tenant: Tenant | undefined;
+  try {
+    tenant = await authenticate(req.headers);
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+  access.tenant = tenant?.name;
+  return handleRequest(req, tenant, access.requestId);
+}
+
+const serverController = new AbortController();
+
+const served = serve(
+  async (req: Request) => {
+    const start = performance.now();
+    const access: AccessLogEntry = {
+      requestId: requestIdFrom(req.headers),
+      method: req.method,
+      path: new URL(req.url).pathname,
+    };
+
+    const done = trackRequest();
+    const response = await dispatch(req, access).finally(done);
+    response.headers.set(REQUEST_ID_HEADER, access.requestId);
+
+    // Streams and jobs are logged once their response starts, their
+    // executions write their own log line when they finish
+    logAccess({
+      ...access,
+      status: response.status,
+      durationMs: performance.now() - start,
+    });
+    return response;
   },
   {
     hostname: "0.0.0.0",
     port: +(Deno.env.get("PORT") || 3333),
+    signal: serverController.signal,
   },
 );
+
+// Finish what was accepted, then stop the workers and the server
+Deno.addSignalListener("SIGTERM", async () => {
+  if (isDraining()) {
+    return;
+  }
+  console.log("🛑 SIGTERM received, draining executions");
+  const cancelled = await drain();
+  if (cancelled > 0) {
+    console.warn(`⚠️  Cancelled ${cancelled} executions at the drain deadline`);
+  }
+  serverController.abort();
+  await served;
+  Deno.exit(0);
+});
@@ -0,0 +1,36 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { admissionQueues } from "./admission.ts";
+import { workerPoolStats } from "./executor.ts";
+import { processPoolStats, warmUp } from "./executor-isolated.ts";
+import { drain, isDraining, shutdownSignal } from "./shutdown.ts";
+
+Deno.test({
+  name: "shutdown - waits for executions, then cancels the rest",
+  async fn() {
+    warmUp();
+    const finishing = await admissionQueues.process.acquire();
+    const stuck = await admissionQueues.none.acquire();
+    setTimeout(finishing.release, 100);
+
+    const start = Date.now();
+    const cancelled = await drain(500);
+    assertEquals(isDraining(), true);
+    assertEquals(Date.now() - start >= 500, true);
+    assertEquals(cancelled, 1);
+    assertEquals(shutdownSignal.aborted, true);
+
+    // Nothing is booted again once the pools are stopped
+    warmUp();
+    assertEquals(processPoolStats().size, 0);
+    assertEquals(workerPoolStats().size, 0);
+    stuck.release();
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
+
+Deno.test("shutdown - returns right away without pending executions", async () => {
+  const start = Date.now();
+  assertEquals(await drain(5000), 0);
+  assertEquals(Date.now() - start < 1000, true);
+});
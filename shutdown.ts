@@ -0,0 +1,86 @@
+/**
+ * Graceful shutdown: once the server is draining, it takes no new requests
+ * and reports not ready, while the executions it already accepted get until
+ * SHUTDOWN_DRAIN_MS to finish
+ *
+ * Executions still running or queued after that are cancelled, then every
+ * pooled worker process and worker is stopped.
+ */
+
+import { admissionQueues } from "./admission.ts";
+import { shutdownProcesses } from "./executor-isolated.ts";
+import { terminateWorkers } from "./executor.ts";
+
+const SHUTDOWN_DRAIN_MS = +(Deno.env.get("SHUTDOWN_DRAIN_MS") || 30000); // How long accepted executions get to finish on shutdown
+const DRAIN_CHECK_INTERVAL_MS = 50; // How often the drain looks for executions left
+const CANCEL_GRACE_MS = 1000; // How long cancelled requests get to send their error
+
+const controller = new AbortController();
+
+// Aborted once the drain deadline passed, cancelling what is left
+export const shutdownSignal: AbortSignal = controller.signal;
+
+let draining = false;
+let openRequests = 0;
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+/**
+ * Counts a request as open and returns the function to call once its
+ * handler returned a response
+ */
+export function trackRequest(): () => void {
+  openRequests++;
+  let done = false;
+  return () => {
+    if (!done) {
+      done = true;
+      openRequests--;
+    }
+  };
+}
+
+// Executions holding or waiting for a slot, async jobs included
+function pendingExecutions(): number {
+  return Object.values(admissionQueues).reduce(
+    (count, queue) => count + queue.running() + queue.queued(),
+    0,
+  );
+}
+
+function waitUntil(done: () => boolean, deadline: number): Promise<void> {
+  return new Promise((resolve) => {
+    const check = () => {
+      if (done() || Date.now() >= deadline) {
+        clearInterval(timer);
+        resolve();
+      }
+    };
+    const timer = setInterval(check, DRAIN_CHECK_INTERVAL_MS);
+    check();
+  });
+}
+
+/**
+ * Starts draining and waits up to `deadlineMs` for the open requests and
+ * pending executions, then cancels the rest and stops the worker processes
+ * and workers
+ *
+ * Returns the number of executions that had to be cancelled.
+ */
+export async function drain(deadlineMs = SHUTDOWN_DRAIN_MS): Promise<number> {
+  draining = true;
+  await waitUntil(
+    () => openRequests === 0 && pendingExecutions() === 0,
+    Date.now() + deadlineMs,
+  );
+
+  const cancelled = pendingExecutions();
+  controller.abort();
+  await waitUntil(() => openRequests === 0, Date.now() + CANCEL_GRACE_MS);
+  shutdownProcesses();
+  terminateWorkers();
+  return cancelled;
+}
@@ -0,0 +1,110 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { AdmissionError } from "./admission.ts";
+import {
+  acquireTenantSlot,
+  applyTenantPolicy,
+  authenticate,
+  AuthenticationError,
+  loadTenants,
+  TenantPolicyError,
+} from "./tenants.ts";
+import { type Tenant, TenantConfigSchema } from "./model/tenant.ts";
+
+const BASIC_KEY = "basic-key-0123456789";
+const TRUSTED_KEY = "trusted-key-0123456789";
+
+const config = TenantConfigSchema.parse({
+  tenants: [
+    {
+      name: "basic",
+      keys: [BASIC_KEY],
+      maxTimeoutMs: 2000,
+      maxMemoryMb: 64,
+      maxConcurrent: 1,
+    },
+    { name: "trusted", keys: [TRUSTED_KEY], isolation: ["process", "none"] },
+  ],
+});
+
+const run = { script: "export const f = () => 1;", fn: "f", payload: {} };
+
+Deno.test("tenants - accepts every request without configured keys", async () => {
+  await loadTenants(undefined);
+
+  assertEquals(await authenticate(new Headers()), undefined);
+});
+
+Deno.test("tenants - maps API keys to their tenant", async () => {
+  await loadTenants(config);
+
+  const bearer = await authenticate(
+    new Headers({ Authorization: `Bearer ${BASIC_KEY}` }),
+  );
+  const header = await authenticate(new Headers({ "X-API-Key": TRUSTED_KEY }));
+  assertEquals([bearer?.name, header?.name], ["basic", "trusted"]);
+
+  await assertRejects(
+    () => authenticate(new Headers()),
+    AuthenticationError,
+    "Missing API key",
+  );
+  await assertRejects(
+    () => authenticate(new Headers({ "X-API-Key": "wrong-key-0123456789" })),
+    AuthenticationError,
+    "Invalid API key",
+  );
+});
+
+Deno.test("tenants - rejects keys shared by several tenants", () => {
+  const result = TenantConfigSchema.safeParse({
+    tenants: [
+      { name: "a", keys: [BASIC_KEY] },
+      { name: "b", keys: [BASIC_KEY] },
+    ],
+  });
+
+  assertEquals(result.success, false);
+});
+
+Deno.test("tenants - enforces isolation, timeout and memory limits", () => {
+  const [basic, trusted] = config.tenants as Tenant[];
+
+  assertThrows(
+    () => applyTenantPolicy(basic, { ...run, isolation: "none" }),
+    TenantPolicyError,
+    'may not use isolation "none"',
+  );
+  assertEquals(
+    applyTenantPolicy(trusted, { ...run, isolation: "none" }).isolation,
+    "none",
+  );
+  assertThrows(
+    () => applyTenantPolicy(basic, { ...run, timeout: 5000 }),
+    TenantPolicyError,
+    "Timeout of 5000ms exceeds the maximum of 2000ms",
+  );
+  assertThrows(
+    () => applyTenantPolicy(basic, { ...run, memoryMb: 128 }),
+    TenantPolicyError,
+    "Memory limit of 128MB exceeds the maximum of 64MB",
+  );
+
+  // Defaults are lowered to the tenant's maximum
+  const applied = applyTenantPolicy(basic, run);
+  assertEquals([applied.timeout, applied.memoryMb], [2000, 64]);
+});
+
+Deno.test("tenants - limits concurrent executions", () => {
+  const [basic] = config.tenants as Tenant[];
+
+  const release = acquireTenantSlot(basic);
+  assertThrows(() => acquireTenantSlot(basic), AdmissionError);
+
+  release();
+  release(); // A second release frees nothing
+  acquireTenantSlot(basic)();
+});
@@ -0,0 +1,178 @@
+/**
+ * API keys and per-tenant quotas
+ *
+ * Tenants and their keys are loaded at startup from the JSON file named by
+ * API_KEYS_FILE, or from the JSON in API_KEYS (see model/tenant.ts). Without
+ * either, authentication is off and every request is accepted.
+ */
+
+import { AdmissionError } from "./admission.ts";
+import {
+  DEFAULT_TIMEOUT_MS,
+  MAX_TIMEOUT_MS,
+  PER_WORKER_MEMORY_MB,
+} from "./executor-common.ts";
+import { type RunCode } from "./model/run-code.ts";
+import {
+  type Tenant,
+  type TenantConfig,
+  TenantConfigSchema,
+} from "./model/tenant.ts";
+import { sha256Hex } from "./utils/hash.ts";
+
+export type { Tenant };
+
+/**
+ * Thrown for a request without a valid API key
+ */
+export class AuthenticationError extends Error {}
+
+/**
+ * Thrown for a request its tenant is not allowed to make
+ */
+export class TenantPolicyError extends Error {}
+
+// SHA-256 of each key -> its tenant, so keys are never compared as plain text
+let tenantsByKeyHash: Map<string, Tenant> | undefined;
+
+// Tenant name -> executions running or queued
+const running = new Map<string, number>();
+
+/**
+ * Replaces the configured tenants; `undefined` turns authentication off
+ */
+export async function loadTenants(
+  config: TenantConfig | undefined,
+): Promise<void> {
+  if (config === undefined) {
+    tenantsByKeyHash = undefined;
+    return;
+  }
+  const entries = await Promise.all(
+    config.tenants.flatMap((tenant) =>
+      tenant.keys.map(async (key) => [await sha256Hex(key), tenant] as const)
+    ),
+  );
+  tenantsByKeyHash = new Map(entries);
+}
+
+export function isAuthEnabled(): boolean {
+  return tenantsByKeyHash !== undefined;
+}
+
+/**
+ * Returns the tenant of the request's API key, sent as
+ * `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ *
+ * Returns undefined when authentication is off, throws AuthenticationError
+ * when the key is missing or unknown.
+ */
+export async function authenticate(
+  headers: Headers,
+): Promise<Tenant | undefined> {
+  if (tenantsByKeyHash === undefined) {
+    return undefined;
+  }
+
+  const authorization = headers.get("Authorization");
+  const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ??
+    headers.get("X-API-Key");
+  if (!key) {
+    throw new AuthenticationError("Missing API key");
+  }
+
+  const tenant = tenantsByKeyHash.get(await sha256Hex(key));
+  if (!tenant) {
+    throw new AuthenticationError("Invalid API key");
+  }
+  return tenant;
+}
+
+/**
+ * Checks a request against its tenant's limits and fills in the timeout and
+ * memory limit the tenant gets by default
+ *
+ * Throws TenantPolicyError for an isolation mode the tenant may not use, or a
+ * timeout or memory limit above the tenant's maximum.
+ */
+export function applyTenantPolicy(
+  tenant: Tenant | undefined,
+  runCode: RunCode,
+): RunCode {
+  if (!tenant) {
+    return runCode;
+  }
+
+  const isolation = runCode.isolation ?? "process";
+  if (!(tenant.isolation ?? ["process"]).includes(isolation)) {
+    throw new TenantPolicyError(
+      `Tenant "${tenant.name}" may not use isolation "${isolation}"`,
+    );
+  }
+
+  const maxTimeoutMs = Math.min(
+    tenant.maxTimeoutMs ?? MAX_TIMEOUT_MS,
+    MAX_TIMEOUT_MS,
+  );
+  if (runCode.timeout !== undefined && runCode.timeout > maxTimeoutMs) {
+    throw new TenantPolicyError(
+      `Timeout of ${runCode.timeout}ms exceeds the maximum of ${maxTimeoutMs}ms for tenant "${tenant.name}"`,
+    );
+  }
+
+  const maxMemoryMb = tenant.maxMemoryMb ?? PER_WORKER_MEMORY_MB;
+  if (runCode.memoryMb !== undefined && runCode.memoryMb > maxMemoryMb) {
+    throw new TenantPolicyError(
+      `Memory limit of ${runCode.memoryMb}MB exceeds the maximum of ${maxMemoryMb}MB for tenant "${tenant.name}"`,
+    );
+  }
+
+  return {
+    ...runCode,
+    timeout: runCode.timeout ?? Math.min(DEFAULT_TIMEOUT_MS, maxTimeoutMs),
+    memoryMb: runCode.memoryMb ?? Math.min(PER_WORKER_MEMORY_MB, maxMemoryMb),
+  };
+}
+
+/**
+ * Throws AdmissionError if the tenant is at its concurrency limit
+ */
+export function checkTenantCapacity(tenant: Tenant | undefined): void {
+  if (
+    tenant?.maxConcurrent !== undefined &&
+    (running.get(tenant.name) ?? 0) >= tenant.maxConcurrent
+  ) {
+    throw new AdmissionError(
+      `Tenant "${tenant.name}" already runs ${tenant.maxConcurrent} executions`,
+    );
+  }
+}
+
+/**
+ * Counts an execution against the tenant's concurrency limit and returns the
+ * function that uncounts it
+ *
+ * Throws AdmissionError when the tenant is at its limit.
+ */
+export function acquireTenantSlot(tenant: Tenant | undefined): () => void {
+  if (!tenant) {
+    return () => {};
+  }
+  checkTenantCapacity(tenant);
+
+  running.set(tenant.name, (running.get(tenant.name) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    running.set(tenant.name, (running.get(tenant.name) ?? 1) - 1);
+  };
+}
+
+function readConfig(): TenantConfig | undefined {
+  const path = Deno.env.get("API_KEYS_FILE");
+  const json = path ? Deno.readTextFileSync(path) : Deno.env.get("API_KEYS");
+  return json ? TenantConfigSchema.parse(JSON.parse(json)) : undefined;
+}
+
+await loadTenants(readConfig());
@@ -0,0 +1,22 @@
+import {
+  assertEquals,
+  assertNotEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { requestIdFrom } from "./tracing.ts";
+
+Deno.test("tracing - keeps the client's request ID", () => {
+  const headers = new Headers({ "X-Request-Id": "checkout-7f3a:retry.2" });
+  assertEquals(requestIdFrom(headers), "checkout-7f3a:retry.2");
+});
+
+Deno.test("tracing - generates a request ID when there is no usable one", () => {
+  const generated = requestIdFrom(new Headers());
+  assertEquals(generated.length, 36);
+  assertNotEquals(requestIdFrom(new Headers()), generated);
+
+  for (const id of ["", "a b", "<script>", "x".repeat(129)]) {
+    const headers = new Headers();
+    headers.set("X-Request-Id", id);
+    assertNotEquals(requestIdFrom(headers), id);
+  }
+});
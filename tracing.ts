@@ -0,0 +1,58 @@
+/**
+ * Request IDs and structured JSON logs, to correlate a client's request with
+ * the server's logs and with the execution it started
+ *
+ * Every request writes one "access" line, every execution one "execution"
+ * line with the time each phase took. Both carry the request ID, which is
+ * taken from the X-Request-Id header or generated.
+ */
+
+import { type ExecutionStats, type PhaseTimings } from "./executor-common.ts";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Client IDs end up in logs and headers, so only plain ones are accepted
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface AccessLogEntry {
+  requestId: string;
+  method: string;
+  path: string;
+  tenant?: string; // Set once the request is authenticated
+  status?: number;
+  durationMs?: number;
+}
+
+export interface ExecutionLogEntry {
+  requestId?: string;
+  tenant?: string;
+  isolation: string;
+  outcome: string; // See outcomeOf() in metrics.ts
+  code?: string; // Error code, if any
+  phases: PhaseTimings & {
+    validationMs?: number; // Reading and checking the request
+    queueMs?: number; // Waiting for an execution slot
+  };
+  stats?: ExecutionStats; // What the client gets, heap and CPU use included
+}
+
+/**
+ * Returns the client's X-Request-Id, or a new ID if it sent none or one with
+ * characters other than letters, digits, `_`, `-`, `.` and `:`
+ */
+export function requestIdFrom(headers: Headers): string {
+  const id = headers.get(REQUEST_ID_HEADER);
+  return id && REQUEST_ID_PATTERN.test(id) ? id : crypto.randomUUID();
+}
+
+function writeLog(type: string, entry: object): void {
+  console.log(JSON.stringify({ type, ts: Date.now(), ...entry }));
+}
+
+export function logAccess(entry: AccessLogEntry): void {
+  writeLog("access", entry);
+}
+
+export function logExecution(entry: ExecutionLogEntry): void {
+  writeLog("execution", entry);
+}
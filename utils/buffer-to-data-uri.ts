@@ -1,9 +1,9 @@
-import { encodeBase64 } from "jsr:@std/encoding/base64";
+import { encodeBase64 } from "jsr:@std/encoding@^1/base64";
 
 /**
  * Detects MIME type from buffer content by checking magic numbers (file signatures)
  */
-function detectMimeType(buffer: Uint8Array): string {
+export function detectMimeType(buffer: Uint8Array): string {
   if (buffer.length === 0) {
     return "application/octet-stream";
   }
@@ -110,16 +110,36 @@ function detectMimeType(buffer: Uint8Array): string {
   return "application/octet-stream";
 }
 
+// Detection results that say less than a declared type
+const GENERIC_MIME_TYPES = ["application/octet-stream", "text/plain"];
+
+/**
+ * Picks the MIME type of input data: the detected one, unless detection can't
+ * tell more than "binary" or "text" and the sender declared a type
+ */
+export function resolveMimeType(
+  buffer: Uint8Array,
+  declaredMimeType?: string,
+): string {
+  const detectedMimeType = detectMimeType(buffer);
+  if (GENERIC_MIME_TYPES.includes(detectedMimeType) && declaredMimeType) {
+    return declaredMimeType;
+  }
+  return detectedMimeType;
+}
+
 /**
  * Converts a Buffer to a data URI with base64 encoding
+ *
+ * The MIME type is detected from the content unless one is given.
  */
-function bufferToDataUri(buffer: Uint8Array): string {
+export function bufferToDataUri(buffer: Uint8Array, mimeType?: string): string {
   // Convert Uint8Array to base64 using Deno's standard library (fastest method)
   // This is much faster than btoa(String.fromCharCode(...buffer)) for large buffers
   const base64 = encodeBase64(buffer);
 
   // Detect MIME type from buffer content
-  const mimeType = detectMimeType(buffer);
+  mimeType ||= detectMimeType(buffer);
   return `data:${mimeType};base64,${base64}`;
 }
 
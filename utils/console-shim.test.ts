@@ -0,0 +1,87 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { type LogLevel } from "../executor-common.ts";
+import { createConsole, formatArgs, toJsonArgs } from "./console-shim.ts";
+
+function capture(): {
+  console: Console;
+  entries: Array<{ level: LogLevel; message: string; args: unknown[] }>;
+} {
+  const entries: Array<{ level: LogLevel; message: string; args: unknown[] }> =
+    [];
+  const console = createConsole((level, message, args) =>
+    entries.push({ level, message, args })
+  );
+  return { console, entries };
+}
+
+Deno.test("formatArgs - formats values like Deno.inspect", () => {
+  assertEquals(formatArgs(["a", 1, { a: 1 }]), "a 1 { a: 1 }");
+  assertEquals(
+    formatArgs([[1, "x"], null, undefined]),
+    '[ 1, "x" ] null undefined',
+  );
+  assertEquals(formatArgs(["%s is %d years", "Bob", 42.5]), "Bob is 42 years");
+  assertEquals(
+    formatArgs(["%o and %%", { b: [2] }, "rest"]),
+    "{ b: [ 2 ] } and % rest",
+  );
+  assertEquals(formatArgs(["%c styled", "color: red"]), " styled");
+});
+
+Deno.test("toJsonArgs - keeps JSON values and inspects the rest", () => {
+  const cyclic: Record<string, unknown> = {};
+  cyclic.self = cyclic;
+
+  assertEquals(toJsonArgs(["a", { n: 1 }, [true]]), ["a", { n: 1 }, [true]]);
+  assertEquals(toJsonArgs([undefined, 10n]), ["undefined", "10n"]);
+  assertEquals(toJsonArgs([cyclic]), ["<ref *1> { self: [Circular *1] }"]);
+});
+
+Deno.test("createConsole - supports every console method", () => {
+  const { console, entries } = capture();
+
+  console.debug("debugging");
+  console.group("Group");
+  console.info("inside");
+  console.groupEnd();
+  console.assert(1 === 1, "not logged");
+  console.assert(false, "broken %s", "thing");
+  console.count();
+  console.count();
+  console.time("t");
+  console.timeEnd("t");
+  console.trace("here");
+  console.table([{ a: 1 }, { a: 2, b: "x" }]);
+  console.dir({ nested: { deep: true } });
+  console.clear();
+
+  assertEquals(entries.map((e) => e.level), [
+    "debug",
+    "log",
+    "info",
+    "error",
+    "log",
+    "log",
+    "log",
+    "trace",
+    "log",
+    "log",
+  ]);
+  assertEquals(entries[2].message, "    inside");
+  assertEquals(entries[3].message, "Assertion failed: broken thing");
+  assertEquals(entries[5].message, "default: 2");
+  assertEquals(entries[6].message.startsWith("t: "), true);
+  assertEquals(entries[7].message.startsWith("Trace: here\n    at "), true);
+  assertEquals(
+    entries[8].message,
+    [
+      "┌───────┬───┬─────┐",
+      "│ (idx) │ a │ b   │",
+      "├───────┼───┼─────┤",
+      "│ 0     │ 1 │     │",
+      '│ 1     │ 2 │ "x" │',
+      "└───────┴───┴─────┘",
+    ].join("\n"),
+  );
+  assertEquals(entries[9].message, "{ nested: { deep: true } }");
+});
@@ -0,0 +1,225 @@
+/**
+ * Console replacement for user code, shared by worker.ts and worker-process.ts
+ *
+ * Every console method is implemented and reports entries to a sink instead of
+ * printing them. Messages are formatted like Deno's own console: strings as
+ * they are, other values with `Deno.inspect`, and printf-style format
+ * specifiers (`%s`, `%d`, `%o`, ...) in a leading string.
+ */
+
+import { type LogLevel } from "../executor-common.ts";
+
+export type LogSink = (
+  level: LogLevel,
+  message: string,
+  args: unknown[],
+) => void;
+
+function inspect(value: unknown): string {
+  return typeof value === "string" ? value : Deno.inspect(value);
+}
+
+/**
+ * Formats console arguments into a single message
+ */
+export function formatArgs(args: unknown[]): string {
+  const [first, ...rest] = args;
+  if (typeof first !== "string" || !first.includes("%")) {
+    return args.map(inspect).join(" ");
+  }
+
+  let message = first.replace(/%([sdifoOc%])/g, (specifier, type) => {
+    if (type === "%") return "%";
+    if (rest.length === 0) return specifier;
+    const value = rest.shift();
+    switch (type) {
+      case "s":
+        return typeof value === "string" ? value : String(value);
+      case "d":
+      case "i":
+        return String(parseInt(String(value)));
+      case "f":
+        return String(parseFloat(String(value)));
+      case "c":
+        return ""; // CSS has no meaning outside a browser
+      default:
+        return Deno.inspect(value);
+    }
+  });
+  if (rest.length > 0) {
+    message += " " + rest.map(inspect).join(" ");
+  }
+  return message;
+}
+
+/**
+ * Converts console arguments to JSON values; anything JSON can't represent
+ * (functions, cycles, BigInt, undefined) becomes its inspected string
+ */
+export function toJsonArgs(args: unknown[]): unknown[] {
+  return args.map((arg) => {
+    try {
+      const json = JSON.stringify(arg);
+      return json === undefined ? Deno.inspect(arg) : JSON.parse(json);
+    } catch {
+      return Deno.inspect(arg);
+    }
+  });
+}
+
+// Cells are inspected like Deno's console.table does, so strings are quoted
+function renderTable(data: unknown, columns?: string[]): string {
+  if (data === null || typeof data !== "object") {
+    return inspect(data);
+  }
+
+  const rows = Object.entries(data as Record<string, unknown>);
+  const keys: string[] = [];
+  let hasValues = false;
+  for (const [, row] of rows) {
+    if (row !== null && typeof row === "object") {
+      for (const key of Object.keys(row)) {
+        if (!keys.includes(key)) keys.push(key);
+      }
+    } else {
+      hasValues = true;
+    }
+  }
+
+  const header = [
+    "(idx)",
+    ...(columns ?? keys),
+    ...(hasValues ? ["Values"] : []),
+  ];
+  const body = rows.map(([index, row]) => {
+    const isObject = row !== null && typeof row === "object";
+    const cells = (columns ?? keys).map((key) =>
+      isObject && key in row
+        ? Deno.inspect((row as Record<string, unknown>)[key])
+        : ""
+    );
+    return [
+      index,
+      ...cells,
+      ...(hasValues ? [isObject ? "" : Deno.inspect(row)] : []),
+    ];
+  });
+
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...body.map((row) => row[i].length))
+  );
+  const line = (left: string, middle: string, right: string) =>
+    left + widths.map((width) => "─".repeat(width + 2)).join(middle) + right;
+  const row = (cells: string[]) =>
+    "│" + cells.map((cell, i) => ` ${cell.padEnd(widths[i])} `).join("│") + "│";
+
+  return [
+    line("┌", "┬", "┐"),
+    row(header),
+    line("├", "┼", "┤"),
+    ...body.map(row),
+    line("└", "┴", "┘"),
+  ].join("\n");
+}
+
+/**
+ * Creates a console that reports every entry to the sink
+ *
+ * Timers, counters and group indentation belong to the console instance, so a
+ * fresh console per job starts from a clean state.
+ */
+export function createConsole(sink: LogSink): Console {
+  let indent = "";
+  const timers = new Map<string, number>();
+  const counters = new Map<string, number>();
+
+  const emit = (level: LogLevel, args: unknown[]) => {
+    const message = formatArgs(args)
+      .split("\n")
+      .map((line) => indent + line)
+      .join("\n");
+    sink(level, message, args);
+  };
+
+  const elapsed = (label: string): string | undefined => {
+    const start = timers.get(label);
+    if (start === undefined) return undefined;
+    return `${label}: ${Math.round(performance.now() - start)}ms`;
+  };
+
+  const shim = {
+    log: (...args: unknown[]) => emit("log", args),
+    info: (...args: unknown[]) => emit("info", args),
+    warn: (...args: unknown[]) => emit("warn", args),
+    error: (...args: unknown[]) => emit("error", args),
+    debug: (...args: unknown[]) => emit("debug", args),
+    dir: (value: unknown) => emit("log", [Deno.inspect(value)]),
+    dirxml: (...args: unknown[]) => emit("log", args),
+    trace: (...args: unknown[]) => {
+      // Drop the "Error" line and this function's own frame
+      const stack = (new Error().stack ?? "").split("\n").slice(2).join("\n");
+      const message = args.length > 0 ? `Trace: ${formatArgs(args)}` : "Trace";
+      emit("trace", [`${message}\n${stack}`]);
+    },
+    assert: (condition?: unknown, ...args: unknown[]) => {
+      if (condition) return;
+      if (args.length === 0) {
+        emit("error", ["Assertion failed"]);
+      } else if (typeof args[0] === "string") {
+        emit("error", [`Assertion failed: ${args[0]}`, ...args.slice(1)]);
+      } else {
+        emit("error", ["Assertion failed:", ...args]);
+      }
+    },
+    table: (data: unknown, columns?: string[]) => {
+      emit("log", [renderTable(data, columns)]);
+    },
+    group: (...args: unknown[]) => {
+      if (args.length > 0) emit("log", args);
+      indent += "    ";
+    },
+    groupCollapsed: (...args: unknown[]) => shim.group(...args),
+    groupEnd: () => {
+      indent = indent.slice(4);
+    },
+    time: (label = "default") => {
+      if (timers.has(label)) {
+        emit("warn", [`Timer '${label}' already exists`]);
+        return;
+      }
+      timers.set(label, performance.now());
+    },
+    timeLog: (label = "default", ...args: unknown[]) => {
+      const message = elapsed(label);
+      if (message === undefined) {
+        emit("warn", [`Timer '${label}' does not exist`]);
+      } else {
+        emit("log", [message, ...args]);
+      }
+    },
+    timeEnd: (label = "default") => {
+      const message = elapsed(label);
+      if (message === undefined) {
+        emit("warn", [`Timer '${label}' does not exist`]);
+      } else {
+        timers.delete(label);
+        emit("log", [message]);
+      }
+    },
+    count: (label = "default") => {
+      const count = (counters.get(label) ?? 0) + 1;
+      counters.set(label, count);
+      emit("log", [`${label}: ${count}`]);
+    },
+    countReset: (label = "default") => {
+      counters.delete(label);
+    },
+    // Nothing to clear or profile outside a terminal or browser
+    clear: () => {},
+    profile: () => {},
+    profileEnd: () => {},
+    timeStamp: () => {},
+  };
+
+  return shim as unknown as Console;
+}
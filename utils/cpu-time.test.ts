@@ -0,0 +1,14 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { measureCpuTime } from "./cpu-time.ts";
+
+Deno.test("cpu time - measures the CPU time used since the start", () => {
+  const stop = measureCpuTime();
+  const end = performance.now() + 50;
+  while (performance.now() < end) {
+    // Burn some CPU
+  }
+  const used = stop();
+
+  assertEquals(used.userMs + used.systemMs >= 25, true);
+  assertEquals(used.systemMs >= 0, true);
+});
@@ -0,0 +1,23 @@
+/**
+ * CPU time of the current process, from getrusage() through node:process,
+ * which needs no permission
+ */
+
+import process from "node:process";
+
+export interface CpuTime {
+  userMs: number;
+  systemMs: number;
+}
+
+/**
+ * Starts measuring and returns the function that returns the CPU time the
+ * whole process used since, all of its threads included
+ */
+export function measureCpuTime(): () => CpuTime {
+  const start = process.cpuUsage();
+  return () => {
+    const { user, system } = process.cpuUsage(start);
+    return { userMs: user / 1000, systemMs: system / 1000 };
+  };
+}
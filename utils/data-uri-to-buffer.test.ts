@@ -0,0 +1,58 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { convertBuffersToDataUris } from "./buffer-to-data-uri.ts";
+import { decodeDataUris, type DecodedBuffer } from "./data-uri-to-buffer.ts";
+
+Deno.test("decodeDataUris - handles primitives and plain strings", () => {
+  assertEquals(decodeDataUris(null), null);
+  assertEquals(decodeDataUris(42), 42);
+  assertEquals(decodeDataUris("hello"), "hello");
+  assertEquals(
+    decodeDataUris("data:text/plain,hello"),
+    "data:text/plain,hello",
+  );
+});
+
+Deno.test("decodeDataUris - decodes base64 data URI to Uint8Array", () => {
+  const result = decodeDataUris("data:text/plain;base64,SGVsbG8=");
+  assertEquals(result instanceof Uint8Array, true);
+  assertEquals(Array.from(result as Uint8Array), [72, 101, 108, 108, 111]);
+  assertEquals((result as DecodedBuffer).mimeType, "text/plain");
+});
+
+Deno.test("decodeDataUris - detects MIME type from content", () => {
+  // PNG signature, declared as generic binary
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const uri = convertBuffersToDataUris(png) as string;
+  const result = decodeDataUris(
+    uri.replace("image/png", "application/octet-stream"),
+  ) as DecodedBuffer;
+  assertEquals(result.mimeType, "image/png");
+  assertEquals<Uint8Array>(result, png);
+});
+
+Deno.test("decodeDataUris - keeps declared type when detection is generic", () => {
+  const result = decodeDataUris(
+    "data:text/csv;charset=utf-8;base64,YSxiCjEsMg==",
+  ) as DecodedBuffer;
+  assertEquals(result.mimeType, "text/csv");
+  assertEquals(new TextDecoder().decode(result), "a,b\n1,2");
+});
+
+Deno.test("decodeDataUris - leaves malformed base64 as a string", () => {
+  assertEquals(
+    decodeDataUris("data:image/png;base64,abc"),
+    "data:image/png;base64,abc",
+  );
+});
+
+Deno.test("decodeDataUris - decodes nested objects and arrays", () => {
+  const result = decodeDataUris({
+    name: "image",
+    files: ["data:text/plain;base64,SGk=", { raw: "data:;base64,AAE=" }],
+  }) as { name: string; files: [Uint8Array, { raw: DecodedBuffer }] };
+
+  assertEquals(result.name, "image");
+  assertEquals(Array.from(result.files[0]), [72, 105]);
+  assertEquals(Array.from(result.files[1].raw), [0, 1]);
+  assertEquals(result.files[1].raw.mimeType, "application/octet-stream");
+});
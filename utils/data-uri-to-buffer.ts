@@ -0,0 +1,72 @@
+// Same specifier as buffer-to-data-uri.ts, so both resolve to the locked version
+import { decodeBase64 } from "jsr:@std/encoding@^1/base64";
+import { resolveMimeType } from "./buffer-to-data-uri.ts";
+
+/**
+ * Uint8Array decoded from a data URI, carrying the MIME type of its content
+ */
+export type DecodedBuffer = Uint8Array & { readonly mimeType: string };
+
+// Only base64 data URIs are decoded, parameters like ";charset=utf-8" are skipped
+const DATA_URI_PATTERN =
+  /^data:([^;,]*)(?:;[^;,]*)*;base64,([A-Za-z0-9+/]*={0,2})$/;
+
+/**
+ * Decodes a base64 data URI, or returns undefined if the string is not one
+ *
+ * The MIME type is detected from the content, see resolveMimeType()
+ */
+function dataUriToBuffer(value: string): DecodedBuffer | undefined {
+  const match = DATA_URI_PATTERN.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, declaredMimeType, base64] = match;
+  if (base64.length % 4 !== 0) {
+    // Malformed base64 (missing padding) is left as a string
+    return undefined;
+  }
+  const buffer = decodeBase64(base64);
+
+  const mimeType = resolveMimeType(buffer, declaredMimeType);
+
+  // Not enumerable, so it doesn't show up when the buffer is logged or iterated
+  Object.defineProperty(buffer, "mimeType", { value: mimeType });
+  return buffer as DecodedBuffer;
+}
+
+/**
+ * Recursively converts all base64 data URI strings in a value to Uint8Arrays
+ *
+ * This is the reverse of convertBuffersToDataUris() for inputs: with
+ * `decodeInputs` set, worker.ts and worker-process.ts run the payload through
+ * it before calling the user function. Each buffer has a `mimeType` property.
+ */
+export function decodeDataUris(value: unknown): unknown {
+  // Handle strings that are data URIs
+  if (typeof value === "string") {
+    return value.startsWith("data:") ? dataUriToBuffer(value) ?? value : value;
+  }
+
+  // Handle arrays
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeDataUris(item));
+  }
+
+  // Handle plain objects - recursively convert values
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    value.constructor === Object
+  ) {
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value)) {
+      result[key] = decodeDataUris(val);
+    }
+    return result;
+  }
+
+  // Return primitives and other types as-is
+  return value;
+}
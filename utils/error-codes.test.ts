@@ -0,0 +1,36 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { errorCodeOf, MissingExportError } from "./error-codes.ts";
+import { SerializationError } from "./serialize-result.ts";
+
+Deno.test("error codes - failures while importing", () => {
+  assertEquals(
+    errorCodeOf(new SyntaxError("Unexpected token"), "import"),
+    "SYNTAX_ERROR",
+  );
+  // How Deno reports a script that doesn't parse
+  assertEquals(
+    errorCodeOf(new TypeError("SyntaxError: Expected ',', got '1'"), "import"),
+    "SYNTAX_ERROR",
+  );
+  assertEquals(
+    errorCodeOf(new TypeError("Module not found"), "import"),
+    "IMPORT_ERROR",
+  );
+  assertEquals(
+    errorCodeOf(
+      new MissingExportError("Code must export function run"),
+      "import",
+    ),
+    "MISSING_EXPORT",
+  );
+});
+
+Deno.test("error codes - failures while running", () => {
+  assertEquals(errorCodeOf(new SyntaxError("JSON"), "run"), "USER_ERROR");
+  assertEquals(errorCodeOf("thrown string", "run"), "USER_ERROR");
+  assertEquals(errorCodeOf(null, "run"), "USER_ERROR");
+  assertEquals(
+    errorCodeOf(new SerializationError("circular"), "run"),
+    "SERIALIZATION_ERROR",
+  );
+});
@@ -0,0 +1,71 @@
+/**
+ * Error codes shared by both executors, and the HTTP status each one is
+ * answered with
+ */
+
+import { SerializationError } from "./serialize-result.ts";
+
+export type ErrorCode =
+  | "VALIDATION_ERROR" // The request is invalid, nothing ran
+  | "SYNTAX_ERROR" // The script does not parse
+  | "IMPORT_ERROR" // Importing the script or one of its dependencies failed
+  | "MISSING_EXPORT" // The script does not export the function `fn`
+  | "USER_ERROR" // The function threw or rejected
+  | "SERIALIZATION_ERROR" // The result can't be serialized
+  | "LOG_LIMIT_EXCEEDED"
+  | "OUTPUT_LIMIT_EXCEEDED"
+  | "TIMEOUT_ERROR"
+  | "MEMORY_LIMIT_ERROR"
+  | "CANCELLED" // The client went away or cancelled the job
+  | "WORKER_CRASH" // The worker or process died without an answer
+  | "BLOB_STORE_ERROR"; // A large buffer of the result could not be stored
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  SYNTAX_ERROR: 422,
+  IMPORT_ERROR: 422,
+  MISSING_EXPORT: 422,
+  USER_ERROR: 422,
+  SERIALIZATION_ERROR: 422,
+  LOG_LIMIT_EXCEEDED: 422,
+  OUTPUT_LIMIT_EXCEEDED: 422,
+  TIMEOUT_ERROR: 422,
+  MEMORY_LIMIT_ERROR: 422,
+  CANCELLED: 422,
+  WORKER_CRASH: 500,
+  BLOB_STORE_ERROR: 500,
+};
+
+/**
+ * Thrown by the workers when the script lacks the function to call
+ */
+export class MissingExportError extends Error {
+  code = "MISSING_EXPORT";
+}
+
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === "string" && code in ERROR_STATUS;
+}
+
+/**
+ * Code of an error a worker caught while importing the script (`import`) or
+ * while running and serializing its function (`run`)
+ */
+export function errorCodeOf(
+  error: unknown,
+  phase: "import" | "run",
+): ErrorCode {
+  if (error instanceof MissingExportError) {
+    return "MISSING_EXPORT";
+  }
+  if (error instanceof SerializationError) {
+    return "SERIALIZATION_ERROR";
+  }
+  if (phase === "run") {
+    return "USER_ERROR";
+  }
+  // Deno reports parse errors of dynamic imports as TypeErrors
+  const isSyntaxError = error instanceof SyntaxError ||
+    (error instanceof Error && error.message.startsWith("SyntaxError"));
+  return isSyntaxError ? "SYNTAX_ERROR" : "IMPORT_ERROR";
+}
@@ -0,0 +1,42 @@
+/**
+ * Encoding of streamed execution events (live logs followed by a final result
+ * or error) as Server-Sent Events or newline-delimited JSON
+ */
+
+export type StreamFormat = "sse" | "ndjson";
+
+export const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+  sse: "text/event-stream",
+  ndjson: "application/x-ndjson",
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Picks the stream format from the Accept header, or undefined if the client
+ * did not ask for a stream
+ */
+export function streamFormatFromAccept(
+  accept: string | null,
+): StreamFormat | undefined {
+  if (accept?.includes(STREAM_CONTENT_TYPES.sse)) return "sse";
+  if (accept?.includes(STREAM_CONTENT_TYPES.ndjson)) return "ndjson";
+  return undefined;
+}
+
+/**
+ * Encodes one event
+ *
+ * SSE events carry the data as JSON in a single `data:` line, NDJSON lines
+ * are the data with the event name added as `type`.
+ */
+export function encodeEvent(
+  format: StreamFormat,
+  event: string,
+  data: Record<string, unknown>,
+): Uint8Array {
+  if (format === "sse") {
+    return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+  return encoder.encode(`${JSON.stringify({ type: event, ...data })}\n`);
+}
@@ -0,0 +1,82 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { encodeFrame, FrameTooLargeError, readFrames } from "./framing.ts";
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return ReadableStream.from(chunks);
+}
+
+async function collect(
+  readable: ReadableStream<Uint8Array>,
+): Promise<unknown[]> {
+  const messages: unknown[] = [];
+  for await (const { message } of readFrames(readable)) {
+    messages.push(message);
+  }
+  return messages;
+}
+
+Deno.test("framing - reads consecutive frames from one chunk", async () => {
+  const first = encodeFrame({ type: "ready" });
+  const second = encodeFrame({ type: "success", result: [1, 2, 3] });
+  const chunk = new Uint8Array(first.length + second.length);
+  chunk.set(first);
+  chunk.set(second, first.length);
+
+  assertEquals(await collect(streamOf([chunk])), [
+    { type: "ready" },
+    { type: "success", result: [1, 2, 3] },
+  ]);
+});
+
+Deno.test("framing - reads frames split across chunks", async () => {
+  const frame = encodeFrame({ text: "héllo wörld".repeat(100) });
+  const chunks = [];
+  for (let i = 0; i < frame.length; i += 7) {
+    chunks.push(frame.slice(i, i + 7));
+  }
+
+  assertEquals(await collect(streamOf(chunks)), [
+    { text: "héllo wörld".repeat(100) },
+  ]);
+});
+
+Deno.test("framing - rejects truncated frames", async () => {
+  const frame = encodeFrame({ type: "success" });
+
+  await assertRejects(
+    () => collect(streamOf([frame.slice(0, frame.length - 1)])),
+    Error,
+    "Stream ended in the middle of a frame",
+  );
+});
+
+Deno.test("framing - carries binary buffers next to the message", async () => {
+  const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+  const empty = new Uint8Array();
+  const frame = encodeFrame({ type: "execute" }, [image, empty]);
+
+  const frames = [];
+  for await (const decoded of readFrames(streamOf([frame, frame]))) {
+    frames.push(decoded);
+  }
+
+  assertEquals(frames.length, 2);
+  assertEquals(frames[1].message, { type: "execute" });
+  assertEquals(frames[1].buffers, [image, empty]);
+});
+
+Deno.test("framing - rejects frames above the maximum size", async () => {
+  const frame = encodeFrame({ text: "x".repeat(1000) });
+
+  await assertRejects(
+    async () => {
+      for await (const _ of readFrames(streamOf([frame]), 100)) {
+        // Never reached
+      }
+    },
+    FrameTooLargeError,
+  );
+});
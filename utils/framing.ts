@@ -0,0 +1,135 @@
+/**
+ * Length-prefixed JSON framing for the IPC between executor-isolated.ts and
+ * worker-process.ts
+ *
+ * Each frame is a 4-byte big-endian length followed by the frame body. The body
+ * starts with the length of the UTF-8 encoded JSON message and the message
+ * itself, followed by any number of binary buffers, each prefixed with its
+ * length. Buffers travel as raw bytes instead of being inflated into JSON.
+ * All lengths are 4-byte big-endian.
+ */
+
+const HEADER_BYTES = 4;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Thrown by readFrames() for a frame larger than it accepts
+ */
+export class FrameTooLargeError extends Error {}
+
+export interface Frame {
+  message: unknown;
+  buffers: Uint8Array[]; // Binary data sent along with the message, in order
+}
+
+/**
+ * Encodes a message and optional binary buffers as a single frame
+ */
+export function encodeFrame(
+  message: unknown,
+  buffers: Uint8Array[] = [],
+): Uint8Array {
+  const json = encoder.encode(JSON.stringify(message));
+  const parts = [json, ...buffers];
+  const bodyLength = parts.reduce(
+    (length, part) => length + HEADER_BYTES + part.length,
+    0,
+  );
+
+  const frame = new Uint8Array(HEADER_BYTES + bodyLength);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, bodyLength);
+  let offset = HEADER_BYTES;
+  for (const part of parts) {
+    view.setUint32(offset, part.length);
+    frame.set(part, offset + HEADER_BYTES);
+    offset += HEADER_BYTES + part.length;
+  }
+  return frame;
+}
+
+function decodeBody(body: Uint8Array): Frame {
+  const view = new DataView(body.buffer, body.byteOffset, body.length);
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const length = view.getUint32(offset);
+    // Copied, so a buffer doesn't expose the rest of the frame via .buffer
+    parts.push(
+      body.slice(offset + HEADER_BYTES, offset + HEADER_BYTES + length),
+    );
+    offset += HEADER_BYTES + length;
+  }
+
+  const [json, ...buffers] = parts;
+  return { message: JSON.parse(decoder.decode(json)), buffers };
+}
+
+/**
+ * Reads frames from a byte stream and yields the decoded messages and buffers
+ *
+ * Ends when the stream ends. Throws if the stream ends in the middle of a
+ * frame or a frame does not contain valid JSON, and throws FrameTooLargeError
+ * as soon as a frame announces more than `maxFrameBytes`, before buffering it.
+ */
+export async function* readFrames(
+  readable: ReadableStream<Uint8Array>,
+  maxFrameBytes = Infinity,
+): AsyncGenerator<Frame> {
+  // Chunks are only merged once a whole frame is available, so large frames
+  // are not copied over and over while they arrive
+  let chunks: Uint8Array[] = [];
+  let buffered = 0;
+  let frameLength: number | undefined;
+
+  const take = (length: number): Uint8Array => {
+    const merged = concat(chunks, buffered);
+    chunks = merged.length > length ? [merged.subarray(length)] : [];
+    buffered -= length;
+    return merged.subarray(0, length);
+  };
+
+  for await (const chunk of readable) {
+    chunks.push(chunk);
+    buffered += chunk.length;
+
+    while (true) {
+      if (frameLength === undefined) {
+        if (buffered < HEADER_BYTES) break;
+        const header = take(HEADER_BYTES);
+        frameLength = new DataView(
+          header.buffer,
+          header.byteOffset,
+          HEADER_BYTES,
+        ).getUint32(0);
+        if (frameLength > maxFrameBytes) {
+          throw new FrameTooLargeError(
+            `Frame of ${frameLength} bytes exceeds ${maxFrameBytes} bytes`,
+          );
+        }
+      }
+      if (buffered < frameLength) break;
+
+      const body = take(frameLength);
+      frameLength = undefined;
+      yield decodeBody(body);
+    }
+  }
+
+  if (buffered > 0 || frameLength !== undefined) {
+    throw new Error("Stream ended in the middle of a frame");
+  }
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const merged = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
@@ -0,0 +1,16 @@
+/**
+ * Content hashes of script text and binary data
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Returns the hex-encoded SHA-256 digest of a string (UTF-8) or bytes
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,28 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { sampleHeap } from "./heap-sampler.ts";
+
+Deno.test("heap sampler - keeps the peak of memory freed before it stops", async () => {
+  const stop = sampleHeap();
+  const before = Deno.memoryUsage().heapUsed;
+
+  let chunks: number[][] | undefined = Array.from(
+    { length: 200 },
+    () => new Array(10_000).fill(1),
+  );
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assertEquals(chunks.length, 200);
+  chunks = undefined;
+
+  const peak = stop();
+  assertEquals(peak > before + 5_000_000, true);
+});
+
+Deno.test("heap sampler - hands every sample to the callback", async () => {
+  const samples: number[] = [];
+  const stop = sampleHeap((heapUsed) => samples.push(heapUsed));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const peak = stop();
+
+  assertEquals(samples.length >= 3, true);
+  assertEquals(Math.max(...samples), peak);
+});
@@ -0,0 +1,33 @@
+/**
+ * Tracks the highest V8 heap use of the current isolate (worker or process)
+ * while a script runs
+ */
+
+const SAMPLE_INTERVAL_MS = 10; // How often the heap is sampled while the event loop is free
+
+/**
+ * Starts sampling and returns the function that stops it and returns the
+ * peak in bytes. `onSample` gets the heap use of every sample, and the rest
+ * of the isolate's memory use.
+ *
+ * Code that never yields is only sampled before and after it runs, so the
+ * peak of a synchronous burst that is freed before it returns goes unseen.
+ */
+export function sampleHeap(
+  onSample?: (heapUsed: number, usage: Deno.MemoryUsage) => void,
+): () => number {
+  let peak = 0;
+  const sample = () => {
+    const usage = Deno.memoryUsage();
+    peak = Math.max(peak, usage.heapUsed);
+    onSample?.(usage.heapUsed, usage);
+  };
+
+  sample();
+  const timer = setInterval(sample, SAMPLE_INTERVAL_MS);
+  return () => {
+    clearInterval(timer);
+    sample();
+    return peak;
+  };
+}
@@ -0,0 +1,36 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { attachFiles, type FileBuffer } from "./input-files.ts";
+
+Deno.test("attachFiles - sets files under their field names", () => {
+  const payload = { width: 200 };
+  const result = attachFiles(payload, [
+    {
+      field: "image",
+      filename: "photo.png",
+      mimeType: "image/png",
+      data: new Uint8Array([1, 2, 3]),
+    },
+  ]);
+
+  const image = result.image as FileBuffer;
+  assertEquals(result.width, 200);
+  assertEquals(Array.from(image), [1, 2, 3]);
+  assertEquals(image.filename, "photo.png");
+  assertEquals(image.mimeType, "image/png");
+  assertEquals(Object.keys(image), ["0", "1", "2"]);
+  // The original payload is left alone
+  assertEquals(payload, { width: 200 });
+});
+
+Deno.test("attachFiles - collects repeated fields into an array", () => {
+  const file = (filename: string) => ({
+    field: "pages",
+    filename,
+    mimeType: "text/plain",
+    data: new TextEncoder().encode(filename),
+  });
+  const result = attachFiles({}, [file("a.txt"), file("b.txt"), file("c.txt")]);
+
+  const pages = result.pages as FileBuffer[];
+  assertEquals(pages.map((page) => page.filename), ["a.txt", "b.txt", "c.txt"]);
+});
@@ -0,0 +1,51 @@
+/**
+ * Files uploaded as multipart/form-data parts, passed to the user function as
+ * `Uint8Array` values in `payload`
+ */
+
+export interface InputFile {
+  field: string; // Form field name, becomes the payload key
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+/**
+ * Uint8Array of an uploaded file, carrying its filename and MIME type
+ */
+export type FileBuffer = Uint8Array & {
+  readonly filename: string;
+  readonly mimeType: string;
+};
+
+/**
+ * Returns a copy of the payload with every file set under its field name
+ *
+ * Several files with the same field name become an array. Run in worker.ts
+ * and worker-process.ts, where the buffers arrive without their metadata.
+ */
+export function attachFiles(
+  payload: Record<string, unknown>,
+  files: InputFile[],
+): Record<string, unknown> {
+  const result = { ...payload };
+  const attached = new Set<string>();
+
+  for (const { field, filename, mimeType, data } of files) {
+    // Not enumerable, so they don't show up when the buffer is logged or iterated
+    Object.defineProperties(data, {
+      filename: { value: filename },
+      mimeType: { value: mimeType },
+    });
+
+    if (!attached.has(field)) {
+      result[field] = data;
+      attached.add(field);
+    } else if (Array.isArray(result[field])) {
+      (result[field] as Uint8Array[]).push(data);
+    } else {
+      result[field] = [result[field], data];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { exceededMemoryLimit } from "./memory-limit.ts";
+
+const V8_OUTPUT = `<--- Last few GCs --->
+
+[25194:0x55a904598000]       97 ms: Mark-Compact (reduce) 31.9 (32.4) -> 31.9 (32.4) MB
+
+#
+# Fatal JavaScript out of memory: Reached heap limit
+#`;
+
+function exit(
+  signal: Deno.Signal | null,
+  stderr: string,
+  killedByPool = false,
+) {
+  const code = signal === "SIGTRAP" ? 133 : signal === "SIGKILL" ? 137 : 1;
+  return {
+    status: { success: false, code, signal },
+    stderr,
+    killedByPool,
+  };
+}
+
+Deno.test("memory limit - V8 crash at the heap limit", () => {
+  assertEquals(exceededMemoryLimit(exit("SIGTRAP", V8_OUTPUT)), true);
+  assertEquals(exceededMemoryLimit(exit("SIGABRT", V8_OUTPUT)), true);
+});
+
+Deno.test("memory limit - SIGKILL from outside the pool", () => {
+  assertEquals(exceededMemoryLimit(exit("SIGKILL", "")), true);
+  assertEquals(exceededMemoryLimit(exit("SIGKILL", "", true)), false);
+});
+
+Deno.test("memory limit - ignores messages without a crash", () => {
+  // A script that prints V8's message and exits on its own
+  assertEquals(exceededMemoryLimit(exit(null, V8_OUTPUT)), false);
+  assertEquals(exceededMemoryLimit(exit(null, "OOM")), false);
+  // A crash that has nothing to do with memory
+  assertEquals(exceededMemoryLimit(exit("SIGTRAP", "OOM")), false);
+});
@@ -0,0 +1,42 @@
+/**
+ * Tells whether a worker process died because it ran out of memory, from how
+ * it exited and what V8 printed before it did
+ */
+
+// What V8 prints to stderr when the heap can't grow past --max-old-space-size
+const HEAP_LIMIT_OUTPUT = [
+  "Fatal JavaScript out of memory",
+  "Reached heap limit",
+  "JavaScript heap out of memory",
+  "Ineffective mark-compacts near heap limit",
+];
+
+// Signals V8 crashes the process with on a fatal out of memory, depending on
+// the platform (SIGTRAP on x86-64 Linux)
+const HEAP_LIMIT_SIGNALS: Deno.Signal[] = ["SIGTRAP", "SIGILL", "SIGABRT"];
+
+export interface ProcessExit {
+  status: Deno.CommandStatus;
+  stderr: string;
+  killedByPool: boolean; // The pool sent the SIGKILL itself, e.g. on a timeout
+}
+
+/**
+ * Whether the process hit its heap limit: V8 crashed it with a signal after
+ * printing its heap limit message, or something other than the pool killed
+ * it with SIGKILL, which in a container is the kernel's OOM killer
+ *
+ * Exit codes and stderr alone are not enough: a script can print anything
+ * and call Deno.exit() with any code, but it can't send itself a signal.
+ */
+export function exceededMemoryLimit(exit: ProcessExit): boolean {
+  const { signal } = exit.status;
+  if (signal === null) {
+    return false;
+  }
+  if (signal === "SIGKILL") {
+    return !exit.killedByPool;
+  }
+  return HEAP_LIMIT_SIGNALS.includes(signal) &&
+    HEAP_LIMIT_OUTPUT.some((line) => exit.stderr.includes(line));
+}
@@ -0,0 +1,70 @@
+/**
+ * Cache of imported user modules, shared by worker.ts and worker-process.ts
+ *
+ * Every worker (or process) keeps the modules it imported, keyed by the tenant
+ * and the hash of the script text. Running the same script again reuses the
+ * module instead of transpiling it and resolving its remote imports again.
+ * Module-level state is therefore shared between executions of the same script
+ * for the same tenant in the same worker or process.
+ */
+
+import { sha256Hex } from "./hash.ts";
+
+export type CacheStatus = "hit" | "miss";
+
+const MAX_CACHED_MODULES = 50; // Per worker or process, least recently used modules are dropped first
+
+// Map iteration order doubles as the LRU order: oldest entries come first
+const modules = new Map<string, Record<string, unknown>>();
+
+function isUrl(script: string): boolean {
+  return (
+    script.startsWith("http://") ||
+    script.startsWith("https://") ||
+    script.startsWith("file://")
+  );
+}
+
+/**
+ * Imports a script given as code or as a URL, reusing the module if the same
+ * script was imported before
+ *
+ * Code is imported from a blob URL of the given content type. Scripts that
+ * fail to import are not cached.
+ */
+export async function importScript(
+  script: string,
+  contentType: string,
+  tenant?: string,
+): Promise<{ module: Record<string, unknown>; cache: CacheStatus }> {
+  const key = `${tenant ?? ""}:${await sha256Hex(script)}`;
+
+  const cached = modules.get(key);
+  if (cached) {
+    // Move to the end of the LRU order
+    modules.delete(key);
+    modules.set(key, cached);
+    return { module: cached, cache: "hit" };
+  }
+
+  let module: Record<string, unknown>;
+  if (isUrl(script)) {
+    // Use the URL directly
+    module = await import(script);
+  } else {
+    // Create a blob URL for the script, only needed while importing it
+    const blob = new Blob([script], { type: contentType });
+    const blobUrl = URL.createObjectURL(blob);
+    try {
+      module = await import(blobUrl);
+    } finally {
+      URL.revokeObjectURL(blobUrl);
+    }
+  }
+
+  modules.set(key, module);
+  if (modules.size > MAX_CACHED_MODULES) {
+    modules.delete(modules.keys().next().value as string);
+  }
+  return { module, cache: "miss" };
+}
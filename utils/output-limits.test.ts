@@ -0,0 +1,48 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createLogLimiter, estimateSize } from "./output-limits.ts";
+
+const entry = (message: string) => ({
+  ts: 0,
+  level: "log" as const,
+  message,
+});
+
+Deno.test("output-limits - stops at the entry limit", () => {
+  const fits = createLogLimiter({
+    maxLogEntries: 2,
+    maxLogBytes: 1000,
+    maxResultBytes: 1000,
+  });
+
+  assertEquals(
+    ["a", "b", "c", "d"].map((message) => fits(entry(message))),
+    [true, true, false, false],
+  );
+});
+
+Deno.test("output-limits - stops at the byte limit for good", () => {
+  const fits = createLogLimiter({
+    maxLogEntries: 100,
+    maxLogBytes: 10,
+    maxResultBytes: 1000,
+  });
+
+  assertEquals(fits(entry("12345")), true);
+  assertEquals(fits({ ...entry("1"), args: ["12345"] }), false); // 1 + 9 bytes of JSON
+  assertEquals(fits(entry("")), false);
+});
+
+Deno.test("output-limits - estimates buffers by their byte length", () => {
+  const buffer = new Uint8Array(1000);
+
+  assertEquals(estimateSize(buffer), 1000);
+  assertEquals(estimateSize({ a: buffer, b: buffer }) < 1100, true);
+  assertEquals(estimateSize("x".repeat(100)), 102);
+});
+
+Deno.test("output-limits - estimates cyclic values", () => {
+  const value: Record<string, unknown> = { name: "loop" };
+  value.self = value;
+
+  assertEquals(estimateSize(value) > 0, true);
+});
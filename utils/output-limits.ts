@@ -0,0 +1,80 @@
+/**
+ * Limits on what a script can send back: log entries, log bytes and result
+ * size. Checked in worker.ts and worker-process.ts as the output is produced,
+ * and again in the executors as it arrives.
+ */
+
+import { type LogEntry } from "../executor-common.ts";
+
+export interface OutputLimits {
+  maxLogEntries: number;
+  maxLogBytes: number; // Total size of all messages (and raw arguments)
+  maxResultBytes: number; // Estimated size of the result, see estimateSize()
+}
+
+export type LimitCode = "LOG_LIMIT_EXCEEDED" | "OUTPUT_LIMIT_EXCEEDED";
+
+const encoder = new TextEncoder();
+
+/**
+ * Describes which limit was exceeded, for error messages
+ */
+export function limitMessage(code: LimitCode, limits: OutputLimits): string {
+  return code === "LOG_LIMIT_EXCEEDED"
+    ? `Log limit exceeded: more than ${limits.maxLogEntries} entries or ${limits.maxLogBytes} bytes`
+    : `Output limit exceeded: result larger than ${limits.maxResultBytes} bytes`;
+}
+
+function logEntryBytes(entry: LogEntry): number {
+  const args = entry.args === undefined ? "" : JSON.stringify(entry.args);
+  return encoder.encode(entry.message).length + encoder.encode(args).length;
+}
+
+/**
+ * Returns a function that counts log entries and tells whether each one still
+ * fits in the limits. Once an entry doesn't fit, no later entry does either.
+ */
+export function createLogLimiter(
+  limits: OutputLimits,
+): (entry: LogEntry) => boolean {
+  let entries = 0;
+  let bytes = 0;
+  let exceeded = false;
+
+  return (entry) => {
+    if (exceeded) return false;
+    entries++;
+    bytes += logEntryBytes(entry);
+    exceeded = entries > limits.maxLogEntries || bytes > limits.maxLogBytes;
+    return !exceeded;
+  };
+}
+
+/**
+ * Estimates the size of a value once serialized, in bytes
+ *
+ * Strings count their UTF-16 length and buffers their byte length. Objects
+ * referenced more than once are counted once.
+ */
+export function estimateSize(value: unknown): number {
+  const seen = new WeakSet<object>();
+
+  const walk = (item: unknown): number => {
+    if (typeof item === "string") return item.length + 2;
+    if (item === null || typeof item !== "object") {
+      return String(item).length;
+    }
+    if (seen.has(item)) return 0;
+    seen.add(item);
+
+    if (ArrayBuffer.isView(item)) return item.byteLength;
+    if (item instanceof ArrayBuffer) return item.byteLength;
+    let size = 2;
+    for (const [key, val] of Object.entries(item)) {
+      size += key.length + 4 + walk(val);
+    }
+    return size;
+  };
+
+  return walk(value);
+}
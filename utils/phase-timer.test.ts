@@ -0,0 +1,24 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createPhaseTimer } from "./phase-timer.ts";
+
+Deno.test("phase timer - records consecutive phases", async () => {
+  const timer = createPhaseTimer();
+  timer.start("importMs");
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  timer.start("executeMs");
+  timer.stop();
+
+  assertEquals(Object.keys(timer.timings), ["importMs", "executeMs"]);
+  assertEquals((timer.timings.importMs as number) >= 15, true);
+  assertEquals((timer.timings.executeMs as number) < 15, true);
+});
+
+Deno.test("phase timer - stop() is safe without a running phase", () => {
+  const timer = createPhaseTimer();
+  timer.stop();
+  timer.start("serializeMs");
+  timer.stop();
+  timer.stop();
+
+  assertEquals(Object.keys(timer.timings), ["serializeMs"]);
+});
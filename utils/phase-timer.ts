@@ -0,0 +1,41 @@
+/**
+ * Measures the phases of an execution inside worker.ts and worker-process.ts
+ */
+
+/**
+ * Time each phase of an execution took, in milliseconds; phases that did not
+ * run are left out
+ */
+export interface PhaseTimings {
+  acquireMs?: number; // Getting a worker or process: spawn, boot or pool wait
+  importMs?: number; // Importing the script (near zero once cached)
+  executeMs?: number; // Running the exported function
+  serializeMs?: number; // Serializing the result
+}
+
+export interface PhaseTimer {
+  timings: PhaseTimings;
+  start: (phase: keyof PhaseTimings) => void; // Ends the running phase, if any, and starts the next one
+  stop: () => void; // Ends the running phase, e.g. the one that threw
+}
+
+export function createPhaseTimer(): PhaseTimer {
+  const timings: PhaseTimings = {};
+  let running: { phase: keyof PhaseTimings; start: number } | undefined;
+
+  const stop = () => {
+    if (running) {
+      timings[running.phase] = performance.now() - running.start;
+      running = undefined;
+    }
+  };
+
+  return {
+    timings,
+    start: (phase) => {
+      stop();
+      running = { phase, start: performance.now() };
+    },
+    stop,
+  };
+}
@@ -0,0 +1,58 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { acceptsRaw, encodeLogsHeader, rawResponse } from "./raw-response.ts";
+
+Deno.test("acceptsRaw - negotiates on Accept header and raw flag", () => {
+  assertEquals(acceptsRaw("application/octet-stream"), true);
+  assertEquals(acceptsRaw("*/*", true), true);
+  assertEquals(acceptsRaw(null, true), true);
+  assertEquals(acceptsRaw("*/*"), false);
+  assertEquals(acceptsRaw("application/json", true), false);
+});
+
+Deno.test("rawResponse - sends bytes with detected type and logs", async () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const logs = [{ ts: 1, level: "log" as const, message: "héllo, wörld" }];
+  const response = rawResponse(png, logs, "hit");
+
+  assertEquals(response.headers.get("Content-Type"), "image/png");
+  assertEquals(response.headers.get("X-Cache"), "hit");
+  assertEquals(
+    JSON.parse(decodeURIComponent(response.headers.get("X-Logs") as string)),
+    logs,
+  );
+  assertEquals(response.headers.get("X-Logs-Truncated"), null);
+  assertEquals(new Uint8Array(await response.arrayBuffer()), png);
+});
+
+Deno.test("encodeLogsHeader - drops the oldest entries to fit", () => {
+  const logs = Array.from({ length: 100 }, (_, i) => ({
+    ts: i,
+    level: "log" as const,
+    message: "x".repeat(200),
+  }));
+  const { value, truncated } = encodeLogsHeader(logs);
+
+  const kept = JSON.parse(decodeURIComponent(value));
+  assertEquals(truncated, true);
+  assertEquals(value.length <= 8 * 1024, true);
+  assertEquals(kept[kept.length - 1].ts, 99);
+});
+
+Deno.test("encodeLogsHeader - keeps as many entries as fit", () => {
+  // Characters that take 3 or 9 encoded characters each
+  const logs = Array.from({ length: 1000 }, (_, i) => ({
+    ts: i,
+    level: "log" as const,
+    message: `${i} "ü" `.repeat(i % 7),
+  }));
+  const { value } = encodeLogsHeader(logs);
+
+  const kept = JSON.parse(decodeURIComponent(value));
+  const oneMore = logs.slice(logs.length - kept.length - 1);
+  assertEquals(value.length <= 8 * 1024, true);
+  assertEquals(
+    encodeURIComponent(JSON.stringify(oneMore)).length > 8 * 1024,
+    true,
+  );
+  assertEquals(kept, logs.slice(logs.length - kept.length));
+});
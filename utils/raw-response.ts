@@ -0,0 +1,73 @@
+/**
+ * Raw binary responses for scripts that return a single Uint8Array: the bytes
+ * are sent as the body with their detected Content-Type, logs go into headers
+ */
+
+import { type LogEntry } from "../executor-common.ts";
+import { detectMimeType } from "./buffer-to-data-uri.ts";
+import { type CacheStatus } from "./module-cache.ts";
+
+const RAW_CONTENT_TYPE = "application/octet-stream";
+
+const MAX_LOGS_HEADER_CHARS = 8 * 1024; // Common proxies reject larger headers
+
+/**
+ * Tells whether a buffer result may be sent as raw bytes: the client asks for
+ * binary explicitly, or sets the `raw` flag and accepts anything
+ */
+export function acceptsRaw(accept: string | null, raw?: boolean): boolean {
+  if (accept?.includes(RAW_CONTENT_TYPE)) return true;
+  return raw === true && (!accept || accept.includes("*/*"));
+}
+
+/**
+ * Encodes logs for the `X-Logs` header as URI-encoded JSON
+ *
+ * The oldest entries are dropped until the header fits, `truncated` tells if
+ * any were.
+ */
+export function encodeLogsHeader(
+  logs: LogEntry[],
+): { value: string; truncated: boolean } {
+  // Encoding works per character, so the array's encoded length is the sum of
+  // its entries' plus "[", "]" and the commas (3 characters each, encoded)
+  let length = 6;
+  let first = logs.length;
+  while (first > 0) {
+    const entryLength = encodeURIComponent(JSON.stringify(logs[first - 1]))
+      .length + (first < logs.length ? 3 : 0);
+    if (length + entryLength > MAX_LOGS_HEADER_CHARS) {
+      break;
+    }
+    length += entryLength;
+    first--;
+  }
+
+  const kept = logs.slice(first);
+  return {
+    value: encodeURIComponent(JSON.stringify(kept)),
+    truncated: kept.length < logs.length,
+  };
+}
+
+/**
+ * Builds a response with the buffer as body
+ */
+export function rawResponse(
+  buffer: Uint8Array,
+  logs: LogEntry[],
+  cache?: CacheStatus,
+): Response {
+  const { value, truncated } = encodeLogsHeader(logs);
+  const headers = new Headers({
+    "Content-Type": detectMimeType(buffer),
+    "X-Logs": value,
+  });
+  if (truncated) {
+    headers.set("X-Logs-Truncated", "true");
+  }
+  if (cache) {
+    headers.set("X-Cache", cache);
+  }
+  return new Response(buffer as BodyInit, { headers });
+}
@@ -0,0 +1,83 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  type BufferPath,
+  extractBuffers,
+  restoreBuffers,
+} from "./result-buffers.ts";
+
+Deno.test("extractBuffers - moves large buffers out by path", () => {
+  const large = new Uint8Array(16);
+  const small = new Uint8Array(2);
+  const result = { files: [small, large], meta: { cover: large }, n: 1 };
+
+  const { value, buffers, paths } = extractBuffers(result, 8);
+
+  assertEquals(value, { files: [small, null], meta: { cover: null }, n: 1 });
+  assertEquals(paths, [["files", 1], ["meta", "cover"]]);
+  assertEquals(buffers, [large, large]);
+  assertEquals(restoreBuffers(value, paths, buffers), result);
+});
+
+Deno.test("extractBuffers - always extracts a buffer result", () => {
+  const small = new Uint8Array([1, 2]);
+  const { value, buffers, paths } = extractBuffers(small, 8);
+
+  assertEquals(value, null);
+  assertEquals(paths, [[]]);
+  assertEquals(restoreBuffers(value, paths, buffers), small);
+});
+
+Deno.test("extractBuffers - leaves look-alike user data alone", () => {
+  const result = { $blob: "abc", paths: [[]], value: null };
+  const extracted = extractBuffers(result, 0);
+
+  assertEquals(extracted.paths, []);
+  assertEquals(
+    restoreBuffers(extracted.value, extracted.paths, extracted.buffers),
+    result,
+  );
+});
+
+Deno.test("restoreBuffers - rejects paths into prototypes", () => {
+  const buffer = new Uint8Array([1]);
+  for (
+    const path of [
+      ["constructor", "prototype", "pwned"],
+      ["__proto__", "pwned"],
+      ["toString"],
+    ]
+  ) {
+    assertThrows(
+      () => restoreBuffers({}, [path], [buffer]),
+      Error,
+      "Invalid buffer path",
+    );
+  }
+  assertEquals(({} as Record<string, unknown>).pwned, undefined);
+});
+
+Deno.test("restoreBuffers - rejects paths extractBuffers could not produce", () => {
+  const buffer = new Uint8Array([1]);
+  const invalid: Array<[unknown, BufferPath[]]> = [
+    [{}, [["a", "b"]]], // Missing parent
+    [{ a: 1 }, [["a", "b"]]], // Parent is not an object
+    [{ a: "text" }, [["a"]]], // Nothing was extracted there
+    [[null], [["0"]]], // Array index as a string
+    [{ a: null }, [[], ["a"]]], // Root path next to another one
+  ];
+  for (const [value, paths] of invalid) {
+    assertThrows(
+      () => restoreBuffers(value, paths, paths.map(() => buffer)),
+      Error,
+      "Invalid buffer path",
+    );
+  }
+  assertThrows(
+    () => restoreBuffers({ a: null }, [["a"]], []),
+    Error,
+    "buffer paths",
+  );
+});
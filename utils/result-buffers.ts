@@ -0,0 +1,108 @@
+/**
+ * Moves large Uint8Arrays out of a result so worker-process.ts can send them
+ * to the server as raw frame buffers instead of base64 data URIs
+ *
+ * Buffers are located by their path in the result rather than by a marker
+ * value, so no user data can be mistaken for one.
+ */
+
+export type BufferPath = Array<string | number>;
+
+/**
+ * Replaces buffers of at least `minBytes` with null and returns them with
+ * their paths. A result that is a buffer itself is always extracted.
+ */
+export function extractBuffers(
+  value: unknown,
+  minBytes: number,
+): { value: unknown; buffers: Uint8Array[]; paths: BufferPath[] } {
+  const buffers: Uint8Array[] = [];
+  const paths: BufferPath[] = [];
+
+  const walk = (item: unknown, path: BufferPath): unknown => {
+    if (item instanceof Uint8Array) {
+      if (path.length > 0 && item.length < minBytes) {
+        return item;
+      }
+      buffers.push(item);
+      paths.push(path);
+      return null;
+    }
+    if (Array.isArray(item)) {
+      return item.map((element, i) => walk(element, [...path, i]));
+    }
+    if (
+      item !== null && typeof item === "object" && item.constructor === Object
+    ) {
+      const result: Record<string, unknown> = {};
+      for (const [key, val] of Object.entries(item)) {
+        result[key] = walk(val, [...path, key]);
+      }
+      return result;
+    }
+    return item;
+  };
+
+  return { value: walk(value, []), buffers, paths };
+}
+
+// Keys that would reach a prototype instead of the result's own data
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Whether `key` is one extractBuffers could have used to step into `parent`:
+// an index of an array or an own, safe key of a plain object
+function isOwnKey(parent: unknown, key: string | number): boolean {
+  if (Array.isArray(parent)) {
+    return Number.isInteger(key) && (key as number) >= 0 &&
+      (key as number) < parent.length;
+  }
+  return isPlainObject(parent) && typeof key === "string" &&
+    !UNSAFE_KEYS.includes(key) && Object.hasOwn(parent, key);
+}
+
+/**
+ * Puts extracted buffers back at their paths
+ *
+ * Paths come from the worker process, where user code can write frames of its
+ * own, so each one must lead through own keys of arrays and plain objects to
+ * the null extractBuffers left. Throws on any other path.
+ */
+export function restoreBuffers(
+  value: unknown,
+  paths: BufferPath[],
+  buffers: Uint8Array[],
+): unknown {
+  if (paths.length !== buffers.length) {
+    throw new Error(
+      `Got ${buffers.length} buffers for ${paths.length} buffer paths`,
+    );
+  }
+  if (paths.some((path) => path.length === 0)) {
+    if (paths.length !== 1 || value !== null) {
+      throw new Error("Invalid buffer path: []");
+    }
+    return buffers[0];
+  }
+
+  paths.forEach((path, i) => {
+    let parent: unknown = value;
+    for (const key of path.slice(0, -1)) {
+      if (!isOwnKey(parent, key)) {
+        throw new Error(`Invalid buffer path: ${JSON.stringify(path)}`);
+      }
+      parent = (parent as Record<string | number, unknown>)[key];
+    }
+    const key = path[path.length - 1];
+    const target = parent as Record<string | number, unknown>;
+    if (!isOwnKey(parent, key) || target[key] !== null) {
+      throw new Error(`Invalid buffer path: ${JSON.stringify(path)}`);
+    }
+    target[key] = buffers[i];
+  });
+  return value;
+}
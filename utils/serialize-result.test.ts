@@ -0,0 +1,101 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { SerializationError, serializeResult } from "./serialize-result.ts";
+
+Deno.test("serialize-result - tags values JSON can't represent", async () => {
+  const result = await serializeResult({
+    big: 10n ** 20n,
+    nan: NaN,
+    date: new Date(0),
+    map: new Map<unknown, unknown>([["a", 1], [2n, new Set([1, 2])]]),
+    pattern: /a+/g,
+    error: new TypeError("bad"),
+    floats: new Float32Array([0.5, 1]),
+    skipped: () => {},
+    missing: undefined,
+  });
+
+  assertEquals(result, {
+    big: { $type: "BigInt", value: "100000000000000000000" },
+    nan: { $type: "Number", value: "NaN" },
+    date: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+    map: {
+      $type: "Map",
+      entries: [
+        ["a", 1],
+        [{ $type: "BigInt", value: "2" }, { $type: "Set", values: [1, 2] }],
+      ],
+    },
+    pattern: { $type: "RegExp", value: "/a+/g" },
+    error: { $type: "Error", name: "TypeError", message: "bad" },
+    floats: { $type: "Float32Array", values: [0.5, 1] },
+  });
+});
+
+Deno.test("serialize-result - keeps bytes for the executors", async () => {
+  const bytes = new Uint8Array([1, 2, 3, 4]);
+
+  const result = await serializeResult({
+    bytes,
+    buffer: bytes.buffer,
+    view: new DataView(bytes.buffer, 1, 2),
+  });
+
+  assertEquals(result, {
+    bytes,
+    buffer: new Uint8Array([1, 2, 3, 4]),
+    view: new Uint8Array([2, 3]),
+  });
+});
+
+Deno.test("serialize-result - converts blobs and files to data URIs", async () => {
+  const result = await serializeResult([
+    new Blob(["hi"], { type: "text/x-greeting" }),
+    new File(["{}"], "a.json"),
+  ]);
+
+  assertEquals(result, [
+    "data:text/x-greeting;base64,aGk=",
+    {
+      $type: "File",
+      name: "a.json",
+      data: "data:application/json;base64,e30=",
+    },
+  ]);
+  assertEquals(
+    await serializeResult(new Blob(["x"])),
+    "data:text/plain;base64,eA==",
+  );
+});
+
+Deno.test("serialize-result - tags class instances and uses toJSON", async () => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+  }
+
+  const result = await serializeResult({
+    point: new Point(1, 2),
+    url: new URL("https://example.com/a"),
+  });
+
+  assertEquals(result, {
+    point: { $type: "Object", class: "Point", value: { x: 1, y: 2 } },
+    url: "https://example.com/a",
+  });
+});
+
+Deno.test("serialize-result - rejects circular references", async () => {
+  const shared = { id: 1 };
+  assertEquals(await serializeResult([shared, shared]), [shared, shared]);
+
+  const value: Record<string, unknown> = { items: [{}] };
+  (value.items as Record<string, unknown>[])[0].parent = value;
+
+  await assertRejects(
+    () => serializeResult(value),
+    SerializationError,
+    "Result contains a circular reference at result.items[0].parent",
+  );
+});
@@ -0,0 +1,182 @@
+/**
+ * Turns a script's result into plain JSON values, the same way in worker.ts
+ * and worker-process.ts
+ *
+ * Values JSON has no representation for become objects tagged with `$type`:
+ *
+ * - `BigInt` → `{ $type: "BigInt", value: "123" }`
+ * - `NaN`, `Infinity` → `{ $type: "Number", value: "NaN" }`
+ * - `Date` → `{ $type: "Date", value: "2024-01-01T00:00:00.000Z" }`
+ * - `Map` → `{ $type: "Map", entries: [[key, value], ...] }`
+ * - `Set` → `{ $type: "Set", values: [...] }`
+ * - `RegExp` → `{ $type: "RegExp", value: "/a+/g" }`
+ * - `Error` → `{ $type: "Error", name: "TypeError", message: "..." }`
+ * - typed arrays → `{ $type: "Float32Array", values: [...] }`
+ * - `File` → `{ $type: "File", name: "a.txt", data: "data:text/plain;base64,..." }`
+ * - class instances → `{ $type: "Object", class: "Point", value: { x: 1 } }`
+ *
+ * A `Blob` becomes a data URI with its own type. `Uint8Array`s are kept (and
+ * `ArrayBuffer`s and `DataView`s become one) for the executors to convert.
+ * Objects with a `toJSON()` method are serialized as what it returns.
+ */
+
+import { bufferToDataUri } from "./buffer-to-data-uri.ts";
+
+/**
+ * Thrown for a result that can't be serialized, e.g. because it refers to
+ * itself
+ */
+export class SerializationError extends Error {
+  code = "SERIALIZATION_ERROR";
+}
+
+type Path = Array<string | number>;
+
+function formatPath(path: Path): string {
+  return path.reduce<string>(
+    (text, key) =>
+      typeof key === "number" ? `${text}[${key}]` : `${text}.${key}`,
+    "result",
+  );
+}
+
+/**
+ * Serializes a result, see the module documentation for the format
+ *
+ * Throws SerializationError for circular references. The same object appearing
+ * in several places is fine, it is serialized at each of them.
+ */
+export async function serializeResult(value: unknown): Promise<unknown> {
+  const ancestors: object[] = [];
+  // Blobs are read once the structure is done, then put at their paths
+  const blobs: Array<{ blob: Blob; path: Path }> = [];
+
+  const walk = (item: unknown, path: Path): unknown => {
+    switch (typeof item) {
+      case "bigint":
+        return { $type: "BigInt", value: item.toString() };
+      case "number":
+        return Number.isFinite(item)
+          ? item
+          : { $type: "Number", value: String(item) };
+      case "function":
+      case "symbol":
+        return undefined; // Dropped, like JSON.stringify() does
+      case "object":
+        break;
+      default:
+        return item;
+    }
+    if (item === null) return null;
+
+    if (item instanceof Uint8Array) return item;
+    if (item instanceof ArrayBuffer) return new Uint8Array(item);
+    if (item instanceof DataView) {
+      return new Uint8Array(item.buffer, item.byteOffset, item.byteLength);
+    }
+    if (ArrayBuffer.isView(item)) {
+      const values = Array.from(
+        item as unknown as ArrayLike<number | bigint>,
+        (element) => typeof element === "bigint" ? String(element) : element,
+      );
+      return { $type: item.constructor.name, values };
+    }
+    if (item instanceof Date) {
+      const time = item.getTime();
+      return {
+        $type: "Date",
+        value: Number.isNaN(time) ? null : item.toISOString(),
+      };
+    }
+    if (item instanceof RegExp) {
+      return { $type: "RegExp", value: String(item) };
+    }
+    if (item instanceof File) {
+      blobs.push({ blob: item, path: [...path, "data"] });
+      return { $type: "File", name: item.name, data: null };
+    }
+    if (item instanceof Blob) {
+      blobs.push({ blob: item, path });
+      return null;
+    }
+
+    if (ancestors.includes(item)) {
+      throw new SerializationError(
+        `Result contains a circular reference at ${formatPath(path)}`,
+      );
+    }
+    ancestors.push(item);
+    try {
+      return walkObject(item, path);
+    } finally {
+      ancestors.pop();
+    }
+  };
+
+  const walkEntries = (item: object, path: Path): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(item)) {
+      const serialized = walk(val, [...path, key]);
+      if (serialized !== undefined) {
+        result[key] = serialized;
+      }
+    }
+    return result;
+  };
+
+  const walkObject = (item: object, path: Path): unknown => {
+    if (Array.isArray(item)) {
+      return item.map((element, i) => walk(element, [...path, i]) ?? null);
+    }
+    if (item instanceof Map) {
+      const entries = [...item].map(([key, val], i) => [
+        walk(key, [...path, "entries", i, 0]) ?? null,
+        walk(val, [...path, "entries", i, 1]) ?? null,
+      ]);
+      return { $type: "Map", entries };
+    }
+    if (item instanceof Set) {
+      const values = [...item].map((val, i) =>
+        walk(val, [...path, "values", i]) ?? null
+      );
+      return { $type: "Set", values };
+    }
+    if (item instanceof Error) {
+      return { $type: "Error", name: item.name, message: item.message };
+    }
+    if ("toJSON" in item && typeof item.toJSON === "function") {
+      return walk(item.toJSON(), path);
+    }
+
+    const prototype = Object.getPrototypeOf(item);
+    if (prototype === Object.prototype || prototype === null) {
+      return walkEntries(item, path);
+    }
+    return {
+      $type: "Object",
+      class: item.constructor?.name || "Object",
+      value: walkEntries(item, [...path, "value"]),
+    };
+  };
+
+  let result = walk(value, []);
+
+  const dataUris = await Promise.all(
+    blobs.map(async ({ blob }) =>
+      bufferToDataUri(new Uint8Array(await blob.arrayBuffer()), blob.type)
+    ),
+  );
+  blobs.forEach(({ path }, i) => {
+    if (path.length === 0) {
+      result = dataUris[i];
+      return;
+    }
+    let parent = result as Record<string | number, unknown>;
+    for (const key of path.slice(0, -1)) {
+      parent = parent[key] as Record<string | number, unknown>;
+    }
+    parent[path[path.length - 1]] = dataUris[i];
+  });
+
+  return result;
+}
@@ -1,133 +1,273 @@
 /**
  * Worker process that runs in isolation with its own memory limit
- * This file is spawned as a separate Deno process
+ * This file is spawned as a separate Deno process and kept warm by the process
+ * pool in executor-isolated.ts: it reads jobs as frames from stdin and writes
+ * log frames while a job runs, then exactly one response frame per job, to
+ * stdout (see utils/framing.ts)
  */
 
-import { type LogLevel } from "./executor-common.ts";
+import process from "node:process";
+import { type ExecutionContext, type LogEntry } from "./executor-common.ts";
 import { convertBuffersToDataUris } from "./utils/buffer-to-data-uri.ts";
+import {
+  createConsole,
+  type LogSink,
+  toJsonArgs,
+} from "./utils/console-shim.ts";
+import { measureCpuTime } from "./utils/cpu-time.ts";
+import { decodeDataUris } from "./utils/data-uri-to-buffer.ts";
+import { errorCodeOf, MissingExportError } from "./utils/error-codes.ts";
+import { encodeFrame, readFrames } from "./utils/framing.ts";
+import { sampleHeap } from "./utils/heap-sampler.ts";
+import { attachFiles, type InputFile } from "./utils/input-files.ts";
+import { extractBuffers } from "./utils/result-buffers.ts";
+import { importScript } from "./utils/module-cache.ts";
+import {
+  createLogLimiter,
+  estimateSize,
+  limitMessage,
+  type OutputLimits,
+} from "./utils/output-limits.ts";
+import { createPhaseTimer } from "./utils/phase-timer.ts";
+import { serializeResult } from "./utils/serialize-result.ts";
 
 interface RunCode {
   script: string;
   fn: string;
   payload?: unknown;
   timeout?: number;
+  decodeInputs?: boolean;
+  logArgs?: boolean;
+  files?: InputFile[];
 }
 
-// Read input from stdin
-const decoder = new TextDecoder();
-const chunks: Uint8Array[] = [];
-for await (const chunk of Deno.stdin.readable) {
-  chunks.push(chunk);
+interface JobMessage {
+  type: "execute";
+  data: Omit<RunCode, "files"> & {
+    files?: Omit<InputFile, "data">[]; // File data arrives as the frame's buffers, in the same order
+  };
+  context: ExecutionContext; // Handed to the script's function
+  rawBufferBytes: number; // Result buffers of this size or larger are sent as raw bytes
+  limits: OutputLimits;
+  memoryLimitMb: number; // Heap limit this process was spawned with
+  tenant?: string; // Modules are cached per tenant
 }
-const input = new Uint8Array(
-  chunks.reduce((acc, chunk) => acc + chunk.length, 0),
-);
-let offset = 0;
-for (const chunk of chunks) {
-  input.set(chunk, offset);
-  offset += chunk.length;
+
+const NEAR_MEMORY_LIMIT = 0.9; // Share of the heap limit reported as close to it
+
+// Whether the job left timers behind that could fire during the next one.
+// Unref'ed timers are not seen, so this only catches timers a script forgot.
+function timersLeft(): boolean {
+  return process.getActiveResourcesInfo().includes("Timeout");
 }
-const inputStr = decoder.decode(input);
 
-try {
-  const runCode: RunCode = JSON.parse(inputStr);
-  const { script, fn, payload } = runCode;
+// Frames are written synchronously: a log entry must reach the pipe before
+// user code continues, or it would be lost if that code never yields again
+function writeFrame(message: unknown, buffers: Uint8Array[] = []): void {
+  const frame = encodeFrame(message, buffers);
+  let written = 0;
+  while (written < frame.length) {
+    written += Deno.stdout.writeSync(frame.subarray(written));
+  }
+}
 
-  const logs: Array<{ ts: number; level: LogLevel; message: string }> = [];
+// Set while a job runs; console calls outside of a job are dropped
+let jobRunning = false;
 
-  const log = (level: LogLevel, ...a: unknown[]) => {
-    logs.push({ ts: Date.now(), level, message: a.join(" ") });
-  };
+let logArgs = false; // Whether the running job wants the raw console arguments
 
-  // Override console to capture logs
-  const originalConsole = globalThis.console;
-  globalThis.console = {
-    log: (...a: unknown[]) => log("log", ...a),
-    info: (...a: unknown[]) => log("info", ...a),
-    warn: (...a: unknown[]) => log("warn", ...a),
-    error: (...a: unknown[]) => log("error", ...a),
-  } as Console;
+let limits: OutputLimits; // Limits of the running job
+let fitsLogLimits: ReturnType<typeof createLogLimiter> = () => false;
+let logLimitExceeded = false;
 
-  let blobUrl: string | null = null;
+// Forward each entry right away instead of batching them with the result
+const log: LogSink = (level, message, args) => {
+  if (!jobRunning || logLimitExceeded) return;
+  const entry: LogEntry = { ts: Date.now(), level, message };
+  if (logArgs) {
+    entry.args = toJsonArgs(args);
+  }
+  if (!fitsLogLimits(entry)) {
+    // Fail right away: the pool kills the process even if the code keeps
+    // logging and never returns
+    logLimitExceeded = true;
+    const error = limitMessage("LOG_LIMIT_EXCEEDED", limits);
+    writeFrame({
+      type: "error",
+      error,
+      message: error,
+      code: "LOG_LIMIT_EXCEEDED",
+    });
+    return;
+  }
+  writeFrame({ type: "log", entry });
+};
 
-  try {
-    // Determine if script is a URL or code
-    const isUrl =
-      script.startsWith("http://") ||
-      script.startsWith("https://") ||
-      script.startsWith("file://");
-
-    let moduleUrl: string;
-
-    if (isUrl) {
-      moduleUrl = script;
-    } else {
-      // Create a blob URL for the script
-      const blob = new Blob([script], { type: "application/typescript" });
-      blobUrl = URL.createObjectURL(blob);
-      moduleUrl = blobUrl;
+// Override console to capture logs. The original console is never restored:
+// anything it prints to stdout would corrupt the frames.
+const originalConsole = globalThis.console;
+globalThis.console = createConsole(log);
+
+async function runJob(
+  runCode: RunCode,
+  context: ExecutionContext,
+  rawBufferBytes: number,
+  memoryLimitMb: number,
+  tenant: string | undefined,
+): Promise<Record<string, unknown>> {
+  const { script, fn, payload, decodeInputs, files } = runCode;
+  const startedAt = Date.now();
+  const timer = createPhaseTimer();
+  const { timings } = timer;
+  // Highest heap use of this process while the job runs. The pool hears once
+  // when it gets close to the limit, as the process may not live to respond.
+  const nearLimitBytes = memoryLimitMb * 1024 * 1024 * NEAR_MEMORY_LIMIT;
+  let nearLimitReported = false;
+  const cpuUsed = measureCpuTime(); // Pooled processes run many jobs, so only this one's share
+  const stopSampling = sampleHeap((heapUsed) => {
+    if (!nearLimitReported && heapUsed >= nearLimitBytes) {
+      nearLimitReported = true;
+      writeFrame({ type: "memory", peakHeapBytes: heapUsed });
     }
+  });
 
-    // Import the module
-    const module = await import(moduleUrl);
+  // Failures before the function runs are the script's, not the function's
+  let phase: "import" | "run" = "import";
+  try {
+    // Import the module (or reuse it if this process ran the script before)
+    timer.start("importMs");
+    const { module, cache } = await importScript(
+      script,
+      "application/typescript",
+      tenant,
+    );
 
     // Get the function
     const targetFn = module[fn];
     if (typeof targetFn !== "function") {
-      throw new Error(`Code must export function ${fn}`);
+      throw new MissingExportError(`Code must export function ${fn}`);
     }
 
-    // Execute the function
-    const result = await targetFn(payload);
-
-    // Restore console
-    globalThis.console = originalConsole;
+    // Execute the function (with data URIs turned into bytes if asked to,
+    // and uploaded files added)
+    let input = decodeInputs ? decodeDataUris(payload) : payload;
+    if (files?.length) {
+      input = attachFiles(input as Record<string, unknown>, files);
+    }
+    // The context comes second, so existing run(input) functions keep working
+    phase = "run";
+    timer.start("executeMs");
+    const returned = await targetFn(input, context);
+    // Maps, Dates, BigInts, Blobs and the like become tagged JSON values
+    timer.start("serializeMs");
+    const result = await serializeResult(returned);
 
-    // Clean up blob URL
-    if (blobUrl) {
-      URL.revokeObjectURL(blobUrl);
+    if (estimateSize(result) > limits.maxResultBytes) {
+      timer.stop();
+      const error = limitMessage("OUTPUT_LIMIT_EXCEEDED", limits);
+      return {
+        type: "error",
+        error,
+        message: error,
+        code: "OUTPUT_LIMIT_EXCEEDED",
+        startedAt,
+        timings,
+        peakHeapBytes: stopSampling(),
+        cpu: cpuUsed(),
+      };
     }
 
+    // Large buffers (and a buffer result) are sent as raw bytes next to the
+    // response: the executor puts them in the blob store or keeps them as is
+    const { value, buffers, paths } = extractBuffers(result, rawBufferBytes);
+
     // Convert any Uint8Array buffers to data URIs BEFORE serialization
     // This prevents the Uint8Array → {"0": 137, "1": 80, ...} serialization issue
-    const convertedResult = convertBuffersToDataUris(result);
-
-    // Output success
-    console.log(
-      JSON.stringify({
-        type: "success",
-        result: convertedResult,
-        logs,
-      }),
-    );
+    const convertedResult = convertBuffersToDataUris(value);
+    timer.stop();
+
+    return {
+      type: "success",
+      result: convertedResult,
+      bufferPaths: paths,
+      buffers,
+      cache,
+      startedAt,
+      timings,
+      peakHeapBytes: stopSampling(),
+      cpu: cpuUsed(),
+      timersLeft: timersLeft(), // After the sampler stopped
+    };
   } catch (error: any) {
-    // Restore console
-    globalThis.console = originalConsole;
+    // Report the phase that failed as well
+    timer.stop();
+    return {
+      type: "error",
+      startedAt,
+      timings,
+      peakHeapBytes: stopSampling(),
+      cpu: cpuUsed(),
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof Error
+        ? {
+            message: error.message,
+            stack: error.stack,
+          }
+        : { message: String(error) }),
+      code: errorCodeOf(error, phase),
+    };
+  }
+}
 
-    // Clean up blob URL
-    if (blobUrl) {
-      URL.revokeObjectURL(blobUrl);
-    }
+// The pool decides when this process ends: a SIGTERM sent to the whole
+// process group, e.g. by systemd, must not kill a job the server is draining
+Deno.addSignalListener("SIGTERM", () => {});
 
-    // Output error
-    console.log(
-      JSON.stringify({
-        type: "error",
-        error: error instanceof Error ? error.message : String(error),
-        ...(error instanceof Error
-          ? {
-              message: error.message,
-              stack: error.stack,
-            }
-          : { message: String(error) }),
-        ...("code" in error ? { code: error.code } : {}),
-        logs,
-      }),
-    );
+try {
+  // Tell the pool this process has booted and is ready for jobs
+  writeFrame({ type: "ready" });
+
+  // Jobs arrive one at a time: the pool waits for a response before sending the next one
+  for await (const { message, buffers } of readFrames(Deno.stdin.readable)) {
+    const job = message as JobMessage;
+    if (job.type === "execute") {
+      const files = job.data.files?.map((file, i) => ({
+        ...file,
+        data: buffers[i],
+      }));
+      // Fresh timers, counters and groups for every job
+      globalThis.console = createConsole(log);
+      logArgs = job.data.logArgs ?? false;
+      limits = job.limits;
+      fitsLogLimits = createLogLimiter(limits);
+      logLimitExceeded = false;
+      jobRunning = true;
+      const response = await runJob(
+        { ...job.data, files },
+        job.context,
+        job.rawBufferBytes,
+        job.memoryLimitMb,
+        job.tenant,
+      );
+      jobRunning = false;
+      try {
+        const { buffers, ...rest } = response;
+        writeFrame(rest, (buffers as Uint8Array[] | undefined) ?? []);
+      } catch (error) {
+        // serializeResult() leaves only JSON values, but a job must never end
+        // without a response
+        writeFrame({
+          type: "error",
+          error: String(error),
+          message: String(error),
+          code: "SERIALIZATION_ERROR",
+        });
+      }
+    }
   }
 } catch (e) {
-  // Failed to parse input or other critical error
-  console.error(
+  // Failed to read a job frame or other critical error
+  originalConsole.error(
     JSON.stringify({
       type: "error",
       error: String(e),
@@ -1,99 +1,193 @@
-import { type LogLevel } from "./executor-common.ts";
+import process from "node:process";
+import { type ExecutionContext, type LogEntry } from "./executor-common.ts";
 import { RunCode } from "./model/run-code.ts";
+import {
+  createConsole,
+  type LogSink,
+  toJsonArgs,
+} from "./utils/console-shim.ts";
+import { decodeDataUris } from "./utils/data-uri-to-buffer.ts";
+import { errorCodeOf, MissingExportError } from "./utils/error-codes.ts";
+import { sampleHeap } from "./utils/heap-sampler.ts";
+import { attachFiles } from "./utils/input-files.ts";
+import { type CacheStatus, importScript } from "./utils/module-cache.ts";
+import {
+  createLogLimiter,
+  estimateSize,
+  limitMessage,
+  type OutputLimits,
+} from "./utils/output-limits.ts";
+import { createPhaseTimer, type PhaseTimings } from "./utils/phase-timer.ts";
+import { serializeResult } from "./utils/serialize-result.ts";
 
 interface WorkerMessage {
   type: "execute";
   data: RunCode;
+  context: ExecutionContext;
+  limits: OutputLimits;
+  memoryLimitMb: number;
+  tenant?: string; // Modules are cached per tenant
 }
 
 interface WorkerResponse {
-  type: "success" | "error";
+  type: "log" | "heartbeat" | "memory" | "success" | "error";
+  entry?: LogEntry; // Sent for every console call, before the final response
+  memoryBytes?: number; // Heap and external memory of the worker, sent with every heartbeat
   result?: unknown;
-  logs?: Array<{ ts: number; level: LogLevel; message: string }>;
+  cache?: CacheStatus; // Whether the module was reused from an earlier execution
   error?: string;
+  message?: string;
+  code?: string;
   name?: string;
   stack?: string;
+  startedAt?: number; // When the worker picked up the job, for the executor's acquireMs
+  timings?: PhaseTimings; // Import, execute and serialize phases
+  peakHeapBytes?: number; // Highest heap use of this worker while the job ran, or on "memory" the use over the limit
+  timersLeft?: boolean; // The job left timers behind, so the worker is not reused
+}
+
+// Whether the job left timers behind that could fire during the next one.
+// Unref'ed timers are not seen, so this only catches timers a script forgot.
+function timersLeft(): boolean {
+  return process.getActiveResourcesInfo().includes("Timeout");
 }
 
 // Listen for messages from the main thread
 self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
   if (e.data.type === "execute") {
-    const { script, fn, payload } = e.data.data;
+    const { script, fn, payload, decodeInputs, logArgs, files } =
+      e.data.data;
+    const { context, limits, memoryLimitMb, tenant } = e.data;
+    const startedAt = Date.now();
+    const timer = createPhaseTimer();
+    const { timings } = timer;
 
-    const logs: Array<{ ts: number; level: LogLevel; message: string }> = [];
+    // Workers share the server's process, so there is no V8 heap limit to
+    // crash them: the executor terminates the worker once it hears about it.
+    // Every sample is also a heartbeat, which stops while the code doesn't
+    // yield.
+    let overLimit = false;
+    const stopSampling = sampleHeap((heapUsed, { heapTotal, external }) => {
+      const heartbeat: WorkerResponse = {
+        type: "heartbeat",
+        memoryBytes: heapTotal + external,
+      };
+      self.postMessage(heartbeat);
+      if (!overLimit && heapUsed > memoryLimitMb * 1024 * 1024) {
+        overLimit = true;
+        const response: WorkerResponse = {
+          type: "memory",
+          peakHeapBytes: heapUsed,
+        };
+        self.postMessage(response);
+      }
+    });
 
-    const log = (level: LogLevel, ...a: unknown[]) => {
-      logs.push({ ts: Date.now(), level, message: a.join(" ") });
+    // Forward each entry right away instead of batching them with the result
+    const fitsLogLimits = createLogLimiter(limits);
+    let logLimitExceeded = false;
+    const log: LogSink = (level, message, args) => {
+      if (logLimitExceeded) return;
+      const entry: LogEntry = { ts: Date.now(), level, message };
+      if (logArgs) {
+        entry.args = toJsonArgs(args);
+      }
+      if (!fitsLogLimits(entry)) {
+        // Fail right away: the executor stops the worker even if the code
+        // keeps logging and never returns
+        logLimitExceeded = true;
+        const response: WorkerResponse = {
+          type: "error",
+          code: "LOG_LIMIT_EXCEEDED",
+          message: limitMessage("LOG_LIMIT_EXCEEDED", limits),
+        };
+        self.postMessage(response);
+        return;
+      }
+      const response: WorkerResponse = { type: "log", entry };
+      self.postMessage(response);
     };
 
     // Override console to capture logs
     const originalConsole = globalThis.console;
-    globalThis.console = {
-      log: (...a: unknown[]) => log("log", ...a),
-      info: (...a: unknown[]) => log("info", ...a),
-      warn: (...a: unknown[]) => log("warn", ...a),
-      error: (...a: unknown[]) => log("error", ...a),
-    } as Console;
-
-    let blobUrl: string | null = null;
+    globalThis.console = createConsole(log);
 
+    // Failures before the function runs are the script's, not the function's
+    let phase: "import" | "run" = "import";
     try {
-      // Check if script is a URL or code string
-      const isUrl =
-        script.startsWith("http://") ||
-        script.startsWith("https://") ||
-        script.startsWith("file://");
-
-      let moduleUrl: string;
-
-      if (isUrl) {
-        // Use the URL directly
-        moduleUrl = script;
-      } else {
-        // Create a blob URL from the user script code
-        const blob = new Blob([script], { type: "application/javascript" });
-        blobUrl = URL.createObjectURL(blob);
-        moduleUrl = blobUrl;
-      }
-
-      // Import the user's code
-      const mod = await import(moduleUrl);
+      // Import the user's code (or reuse it if this worker ran it before)
+      timer.start("importMs");
+      const { module: mod, cache } = await importScript(
+        script,
+        "application/javascript",
+        tenant,
+      );
 
       const action = mod[fn];
 
       if (typeof action !== "function") {
-        throw new Error(`Code must export function ${fn}`);
+        throw new MissingExportError(`Code must export function ${fn}`);
       }
 
-      // Execute the user's function
-      const result = await action(payload);
+      // Execute the user's function (with data URIs turned into bytes if asked
+      // to, and uploaded files added)
+      let input = decodeInputs ? decodeDataUris(payload) : payload;
+      if (files?.length) {
+        input = attachFiles(input as Record<string, unknown>, files);
+      }
+      // The context comes second, so existing run(input) functions keep working
+      phase = "run";
+      timer.start("executeMs");
+      const returned = await action(input, context);
+      // Maps, Dates, BigInts, Blobs and the like become tagged JSON values
+      timer.start("serializeMs");
+      const result = await serializeResult(returned);
+      timer.stop();
+      const peakHeapBytes = stopSampling();
+
+      if (estimateSize(result) > limits.maxResultBytes) {
+        const response: WorkerResponse = {
+          type: "error",
+          code: "OUTPUT_LIMIT_EXCEEDED",
+          message: limitMessage("OUTPUT_LIMIT_EXCEEDED", limits),
+          startedAt,
+          timings,
+          peakHeapBytes,
+        };
+        self.postMessage(response);
+        return;
+      }
 
       // Send success response back to main thread
       const response: WorkerResponse = {
         type: "success",
         result,
-        logs,
+        cache,
+        startedAt,
+        timings,
+        peakHeapBytes,
+        timersLeft: timersLeft(), // After the sampler stopped
       };
       self.postMessage(response);
     } catch (error: any) {
-      // Send error response back to main thread
+      // Send error response back to main thread, with the phase that failed
+      timer.stop();
       const response: WorkerResponse = {
         type: "error",
+        startedAt,
+        timings,
+        peakHeapBytes: stopSampling(),
         ...(error instanceof Error
           ? {
               message: error.message,
               stack: error.stack,
             }
           : { message: String(error) }),
-        ...("code" in error ? { code: error.code } : {}),
-        logs,
+        code: errorCodeOf(error, phase),
       };
       self.postMessage(response);
     } finally {
       // Cleanup
-      if (blobUrl) {
-        URL.revokeObjectURL(blobUrl);
-      }
       globalThis.console = originalConsole;
     }
   }